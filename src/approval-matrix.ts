@@ -0,0 +1,113 @@
+import fs from 'fs'
+import { z } from 'zod'
+import { config } from './config.js'
+import { createRepository } from './store.js'
+
+// '*' matches any value for region, currency and category
+export const WILDCARD = '*'
+
+export const approvalRuleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    description: z.string().default(''),
+    region: z.string().min(1).default(WILDCARD),
+    currency: z.string().min(1).default(WILDCARD),
+    category: z.string().min(1).default(WILDCARD),
+    minAmount: z.number().nonnegative().default(0),
+    // null means no upper bound
+    maxAmount: z.number().positive().nullable().default(null),
+    approvers: z.array(z.string().min(1)).min(1),
+    priority: z.number().int().default(0),
+  })
+  .refine((rule) => rule.maxAmount === null || rule.maxAmount > rule.minAmount, {
+    message: 'maxAmount must be greater than minAmount',
+    path: ['maxAmount'],
+  })
+
+export type ApprovalRuleInput = z.input<typeof approvalRuleSchema>
+export type ApprovalRule = z.output<typeof approvalRuleSchema> & { id: string }
+
+export interface ApprovalRequest {
+  region: string
+  amount: number
+  currency: string
+  category?: string
+}
+
+export interface ApprovalEvaluation {
+  approvers: string[]
+  rule: ApprovalRule
+  explanation: string
+  // Other rules that also matched but lost on specificity or priority
+  shadowedRules: string[]
+}
+
+export const approvalRules = createRepository<ApprovalRule>('approvalRules', (rule) => rule.id)
+
+// Rules are configuration rather than demo data, so they are loaded even when seeding is off
+if (approvalRules.count() === 0) {
+  approvalRules.seed(loadApprovalRules(config.approvalMatrixFile))
+}
+
+export function loadApprovalRules(file: string): ApprovalRule[] {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  const rules: unknown[] = Array.isArray(raw) ? raw : raw.rules || []
+
+  return rules.map((input, index) => {
+    const parsed = approvalRuleSchema.safeParse(input)
+    if (!parsed.success) {
+      throw new Error(`Invalid approval rule #${index + 1} in ${file}: ${parsed.error.issues.map((i) => i.message).join('; ')}`)
+    }
+    return { ...parsed.data, id: parsed.data.id || `RULE-${String(index + 1).padStart(3, '0')}` }
+  })
+}
+
+export function nextRuleId(): string {
+  let n = approvalRules.count() + 1
+  while (approvalRules.has(`RULE-${String(n).padStart(3, '0')}`)) n++
+  return `RULE-${String(n).padStart(3, '0')}`
+}
+
+const matchesDimension = (ruleValue: string, value: string | undefined) =>
+  ruleValue === WILDCARD || (!!value && ruleValue.toLowerCase() === value.toLowerCase())
+
+const matchesAmount = (rule: ApprovalRule, amount: number) =>
+  amount >= rule.minAmount && (rule.maxAmount === null || amount < rule.maxAmount)
+
+// Number of dimensions pinned to a concrete value; more specific rules win
+const specificity = (rule: ApprovalRule) =>
+  [rule.region, rule.currency, rule.category].filter((value) => value !== WILDCARD).length
+
+const describeBand = (rule: ApprovalRule) =>
+  rule.maxAmount === null ? `>= ${rule.minAmount}` : `${rule.minAmount}-${rule.maxAmount}`
+
+// Pick the most specific matching rule (ties broken by priority, then rule order)
+export function evaluateApprovalMatrix(request: ApprovalRequest): ApprovalEvaluation | null {
+  const candidates = approvalRules
+    .all()
+    .filter(
+      (rule) =>
+        matchesDimension(rule.region, request.region) &&
+        matchesDimension(rule.currency, request.currency) &&
+        matchesDimension(rule.category, request.category) &&
+        matchesAmount(rule, request.amount)
+    )
+    .sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)
+
+  if (candidates.length === 0) return null
+
+  const [rule, ...shadowed] = candidates
+  const pinned = (['region', 'currency', 'category'] as const)
+    .filter((key) => rule[key] !== WILDCARD)
+    .map((key) => `${key}=${rule[key]}`)
+
+  return {
+    approvers: rule.approvers,
+    rule,
+    explanation:
+      `Matched ${rule.id}${rule.description ? ` (${rule.description})` : ''}: ` +
+      `${pinned.length ? pinned.join(', ') : 'any region/currency/category'}, amount ${describeBand(rule)}. ` +
+      `Approval chain: ${rule.approvers.join(' -> ')}.`,
+    shadowedRules: shadowed.map((r) => r.id),
+  }
+}
@@ -0,0 +1,244 @@
+import ExcelJS from 'exceljs'
+import type { Writable } from 'stream'
+
+// The invoice fields aging needs; index.ts invoices satisfy this structurally
+export interface AgingInvoice {
+  id: string
+  customer_id: string
+  currency: string
+  invoice_date: string
+  due_date: string
+  status: string
+  balance: number
+}
+
+export interface AgingTotals {
+  total_due: number
+  total_overdue: number
+  by_bucket: Record<string, number>
+}
+
+export interface AgingRow extends AgingTotals {
+  customer_id: string
+  currency: string
+  invoice_count: number
+}
+
+export interface AgingDetail {
+  invoice_id: string
+  customer_id: string
+  currency: string
+  due_date: string
+  days_past_due: number
+  bucket: string
+  balance: number
+}
+
+export interface ReportingTotals extends AgingTotals {
+  currency: string
+  // Reporting units per unit of each invoice currency, as of the report date
+  rates: Record<string, number>
+}
+
+export interface ArAgingReport {
+  as_of_date: string
+  buckets: string[]
+  rows: AgingRow[]
+  invoices: AgingDetail[]
+  totals_by_currency: Record<string, AgingTotals>
+  reporting?: ReportingTotals
+}
+
+export const CURRENT_BUCKET = 'current'
+const OPEN_STATUSES = ['Sent', 'Overdue']
+const DAY_MS = 86400000
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Boundaries [30, 60, 90] give: current, 1-30, 31-60, 61-90, 91+
+export function bucketLabels(boundaries: number[]): string[] {
+  const labels = [CURRENT_BUCKET]
+  let lower = 1
+  boundaries.forEach((upper) => {
+    labels.push(`${lower}-${upper}`)
+    lower = upper + 1
+  })
+  labels.push(`${lower}+`)
+  return labels
+}
+
+// Parse "30,60,90" into sorted, positive, de-duplicated day boundaries
+export function parseBucketBoundaries(raw: string): number[] | null {
+  const values = raw.split(',').map((part) => Number(part.trim()))
+  if (values.length === 0 || values.some((v) => !Number.isInteger(v) || v <= 0)) return null
+  return [...new Set(values)].sort((a, b) => a - b)
+}
+
+export const daysBetween = (from: string, to: string) =>
+  Math.floor((Date.parse(to) - Date.parse(from)) / DAY_MS)
+
+function bucketFor(daysPastDue: number, boundaries: number[], labels: string[]): string {
+  if (daysPastDue <= 0) return CURRENT_BUCKET
+  const index = boundaries.findIndex((upper) => daysPastDue <= upper)
+  return labels[index === -1 ? labels.length - 1 : index + 1]
+}
+
+const emptyTotals = (labels: string[]): AgingTotals => ({
+  total_due: 0,
+  total_overdue: 0,
+  by_bucket: Object.fromEntries(labels.map((label) => [label, 0])),
+})
+
+function addTo(totals: AgingTotals, detail: AgingDetail) {
+  totals.total_due = round2(totals.total_due + detail.balance)
+  if (detail.bucket !== CURRENT_BUCKET) totals.total_overdue = round2(totals.total_overdue + detail.balance)
+  totals.by_bucket[detail.bucket] = round2(totals.by_bucket[detail.bucket] + detail.balance)
+}
+
+// Age every open invoice issued on or before asOfDate by days past its due date,
+// grouped by customer and currency. Currencies are never added together.
+export function computeArAging(invoices: AgingInvoice[], asOfDate: string, boundaries: number[]): ArAgingReport {
+  const labels = bucketLabels(boundaries)
+
+  const details: AgingDetail[] = invoices
+    .filter((inv) => OPEN_STATUSES.includes(inv.status) && inv.balance > 0 && inv.invoice_date <= asOfDate)
+    .map((inv) => {
+      const daysPastDue = daysBetween(inv.due_date, asOfDate)
+      return {
+        invoice_id: inv.id,
+        customer_id: inv.customer_id,
+        currency: inv.currency,
+        due_date: inv.due_date,
+        days_past_due: Math.max(daysPastDue, 0),
+        bucket: bucketFor(daysPastDue, boundaries, labels),
+        balance: inv.balance,
+      }
+    })
+    .sort((a, b) => a.customer_id.localeCompare(b.customer_id) || b.days_past_due - a.days_past_due)
+
+  const rows = new Map<string, AgingRow>()
+  const totalsByCurrency: Record<string, AgingTotals> = {}
+
+  details.forEach((detail) => {
+    const key = `${detail.customer_id}|${detail.currency}`
+    if (!rows.has(key)) {
+      rows.set(key, { customer_id: detail.customer_id, currency: detail.currency, invoice_count: 0, ...emptyTotals(labels) })
+    }
+    const row = rows.get(key)!
+    row.invoice_count++
+    addTo(row, detail)
+
+    totalsByCurrency[detail.currency] ??= emptyTotals(labels)
+    addTo(totalsByCurrency[detail.currency], detail)
+  })
+
+  return {
+    as_of_date: asOfDate,
+    buckets: labels,
+    rows: [...rows.values()],
+    invoices: details,
+    totals_by_currency: totalsByCurrency,
+  }
+}
+
+// Add reporting-currency totals next to the per-currency subtotals. `rateFor` returns
+// reporting units per unit of the given currency and may throw when a rate is missing.
+export function convertAging(report: ArAgingReport, currency: string, rateFor: (from: string) => number): ArAgingReport {
+  const reporting: ReportingTotals = { currency, rates: {}, ...emptyTotals(report.buckets) }
+
+  Object.entries(report.totals_by_currency).forEach(([from, totals]) => {
+    const rate = rateFor(from)
+    reporting.rates[from] = rate
+    reporting.total_due = round2(reporting.total_due + totals.total_due * rate)
+    reporting.total_overdue = round2(reporting.total_overdue + totals.total_overdue * rate)
+    report.buckets.forEach((bucket) => {
+      reporting.by_bucket[bucket] = round2(reporting.by_bucket[bucket] + totals.by_bucket[bucket] * rate)
+    })
+  })
+
+  return { ...report, reporting }
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function agingToCsv(report: ArAgingReport): string {
+  const header = ['customer_id', 'currency', 'invoice_count', ...report.buckets, 'total_overdue', 'total_due']
+  const lines = report.rows.map((row) => [
+    row.customer_id,
+    row.currency,
+    row.invoice_count,
+    ...report.buckets.map((bucket) => row.by_bucket[bucket].toFixed(2)),
+    row.total_overdue.toFixed(2),
+    row.total_due.toFixed(2),
+  ])
+  Object.entries(report.totals_by_currency).forEach(([currency, totals]) => {
+    lines.push([
+      'TOTAL',
+      currency,
+      '',
+      ...report.buckets.map((bucket) => totals.by_bucket[bucket].toFixed(2)),
+      totals.total_overdue.toFixed(2),
+      totals.total_due.toFixed(2),
+    ])
+  })
+  if (report.reporting) {
+    lines.push([
+      'TOTAL (reporting)',
+      report.reporting.currency,
+      '',
+      ...report.buckets.map((bucket) => report.reporting!.by_bucket[bucket].toFixed(2)),
+      report.reporting.total_overdue.toFixed(2),
+      report.reporting.total_due.toFixed(2),
+    ])
+  }
+  return [header, ...lines].map((line) => line.map(csvCell).join(',')).join('\n') + '\n'
+}
+
+// Summary sheet (customer x currency) plus an invoice-level detail sheet
+export async function writeAgingXlsx(report: ArAgingReport, output: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output })
+  const moneyFormat = '#,##0.00'
+
+  const summary = workbook.addWorksheet('AR Aging')
+  summary.columns = [
+    { header: 'Customer', key: 'customer_id', width: 16 },
+    { header: 'Currency', key: 'currency', width: 10 },
+    { header: 'Invoices', key: 'invoice_count', width: 10 },
+    ...report.buckets.map((bucket) => ({ header: bucket, key: bucket, width: 14, style: { numFmt: moneyFormat } })),
+    { header: 'Total Overdue', key: 'total_overdue', width: 16, style: { numFmt: moneyFormat } },
+    { header: 'Total Due', key: 'total_due', width: 16, style: { numFmt: moneyFormat } },
+  ]
+  summary.getRow(1).font = { bold: true }
+  report.rows.forEach((row) => summary.addRow({ ...row, ...row.by_bucket }).commit())
+  Object.entries(report.totals_by_currency).forEach(([currency, totals]) => {
+    const totalRow = summary.addRow({ customer_id: 'TOTAL', currency, ...totals, ...totals.by_bucket })
+    totalRow.font = { bold: true }
+    totalRow.commit()
+  })
+  if (report.reporting) {
+    const { rates, ...reporting } = report.reporting
+    const reportingRow = summary.addRow({ customer_id: 'TOTAL (reporting)', ...reporting, ...reporting.by_bucket })
+    reportingRow.font = { bold: true }
+    reportingRow.commit()
+  }
+  summary.commit()
+
+  const detail = workbook.addWorksheet('Invoices')
+  detail.columns = [
+    { header: 'Invoice', key: 'invoice_id', width: 14 },
+    { header: 'Customer', key: 'customer_id', width: 16 },
+    { header: 'Currency', key: 'currency', width: 10 },
+    { header: 'Due Date', key: 'due_date', width: 12 },
+    { header: 'Days Past Due', key: 'days_past_due', width: 14 },
+    { header: 'Bucket', key: 'bucket', width: 10 },
+    { header: 'Balance', key: 'balance', width: 14, style: { numFmt: moneyFormat } },
+  ]
+  detail.getRow(1).font = { bold: true }
+  report.invoices.forEach((inv) => detail.addRow(inv).commit())
+  detail.commit()
+
+  await workbook.commit()
+}
@@ -0,0 +1,88 @@
+import { createRepository } from './store.js'
+
+export const ASSET_TYPES = ['laptop', 'badge', 'phone', 'license', 'monitor', 'other'] as const
+
+export type AssetType = (typeof ASSET_TYPES)[number]
+
+export type AssetCondition = 'good' | 'damaged' | 'lost'
+
+export interface AssetEvent {
+  date: string
+  action: 'Assigned' | 'Returned' | 'Lost'
+  employeeId: string
+  actor: string
+  condition?: AssetCondition
+  notes?: string
+}
+
+export interface Asset {
+  id: string
+  type: AssetType
+  description: string
+  serialNumber?: string
+  status: 'Available' | 'Assigned' | 'Lost' | 'Retired'
+  assignedTo?: string
+  assignedAt?: string
+  history: AssetEvent[]
+}
+
+const seeded = (
+  id: string,
+  type: AssetType,
+  description: string,
+  serialNumber?: string,
+  assignedTo?: string,
+  assignedAt?: string
+): Asset => ({
+  id,
+  type,
+  description,
+  serialNumber,
+  status: assignedTo ? 'Assigned' : 'Available',
+  assignedTo,
+  assignedAt,
+  history: assignedTo ? [{ date: assignedAt!, action: 'Assigned', employeeId: assignedTo, actor: 'IT Service Desk' }] : [],
+})
+
+export const assets = createRepository<Asset>('assets', (a) => a.id, [
+  seeded('AST-0001', 'laptop', 'MacBook Pro 14"', 'C02XK1JHMD6M', 'EMP-0001', '2024-01-08T09:00:00.000Z'),
+  seeded('AST-0002', 'badge', 'Building access badge', 'BDG-10442', 'EMP-0001', '2024-01-08T09:00:00.000Z'),
+  seeded('AST-0003', 'laptop', 'ThinkPad T14', 'PF3ZK9QW', 'EMP-0002', '2024-03-01T09:00:00.000Z'),
+  seeded('AST-0004', 'license', 'Adobe Acrobat Pro seat', undefined, 'EMP-0002', '2024-03-01T09:00:00.000Z'),
+  seeded('AST-0005', 'laptop', 'MacBook Air 13"', 'C02YL2ABJG5H'),
+  seeded('AST-0006', 'laptop', 'ThinkPad T14', 'PF3ZK9RT'),
+  seeded('AST-0007', 'phone', 'iPhone 15', 'F4GZP1Q2N72J'),
+  seeded('AST-0008', 'badge', 'Building access badge', 'BDG-10443'),
+  seeded('AST-0009', 'badge', 'Building access badge', 'BDG-10444'),
+  seeded('AST-0010', 'license', 'JetBrains All Products seat'),
+  seeded('AST-0011', 'monitor', 'Dell U2723QE 27"', 'CN0G9PX1'),
+])
+
+export function nextAssetId(): string {
+  let n = assets.count() + 1
+  while (assets.has(`AST-${String(n).padStart(4, '0')}`)) n++
+  return `AST-${String(n).padStart(4, '0')}`
+}
+
+// Assets an employee still holds
+export const outstandingAssets = (employeeId: string) =>
+  assets.filter((a) => a.status === 'Assigned' && a.assignedTo === employeeId)
+
+export function assignAsset(asset: Asset, employeeId: string, actor: string, notes?: string) {
+  const now = new Date().toISOString()
+  asset.status = 'Assigned'
+  asset.assignedTo = employeeId
+  asset.assignedAt = now
+  asset.history.push({ date: now, action: 'Assigned', employeeId, actor, notes })
+  return assets.save(asset)
+}
+
+// Check an asset back in; a lost asset is written off so it no longer counts as outstanding
+export function checkInAsset(asset: Asset, condition: AssetCondition, actor: string, notes?: string) {
+  const employeeId = asset.assignedTo!
+  asset.history.push({ date: new Date().toISOString(), action: condition === 'lost' ? 'Lost' : 'Returned', employeeId, actor, condition, notes })
+  asset.status = condition === 'lost' ? 'Lost' : 'Available'
+  asset.assignedTo = undefined
+  asset.assignedAt = undefined
+  return assets.save(asset)
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import type { Request, Response, NextFunction } from 'express'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { config } from './config.js'
+
+export const ROLES = [
+  'CPM',
+  'CPH',
+  'Geo Controller',
+  'Corporate Controller',
+  'HR',
+  'Manager',
+  'Finance',
+  'IT',
+] as const
+
+export type Role = (typeof ROLES)[number]
+
+// Authenticated caller, taken from the verified bearer token
+export interface Identity {
+  id: string
+  name: string
+  roles: Role[]
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: Identity
+    }
+  }
+}
+
+// Role groups used by the route table in index.ts and the matching MCP tools
+export const PO_APPROVERS: Role[] = ['CPM', 'CPH', 'Geo Controller', 'Corporate Controller']
+export const PO_VIEWERS: Role[] = [...PO_APPROVERS, 'Finance']
+export const TEAM_LEADS: Role[] = ['Manager']
+export const FINANCE: Role[] = ['Finance']
+
+// Which roles may invoke each MCP tool. Tools missing from this table are denied.
+export const toolRoles: Record<string, Role[]> = {
+  initiate_onboarding: ['HR', 'Manager'],
+  validate_onboarding_data: ['HR', 'Manager'],
+  import_onboarding_batch: ['HR'],
+  approve_onboarding: ['HR', 'Manager'],
+  provision_systems: ['IT'],
+  enroll_benefits: ['Finance', 'HR'],
+  check_onboarding_compliance: ['HR'],
+  complete_onboarding: ['HR'],
+  initiate_offboarding: ['HR', 'Manager'],
+  approve_offboarding: ['HR', 'Manager'],
+  deprovision_systems: ['IT'],
+  process_final_payroll: ['Finance'],
+  check_offboarding_compliance: ['HR'],
+  complete_offboarding: ['HR'],
+  list_assets: ['HR', 'Manager', 'IT'],
+  assign_asset: ['IT', 'HR'],
+  return_asset: ['IT', 'HR'],
+  upload_document: ['HR', 'Manager'],
+  verify_document: ['HR'],
+  list_documents: ['HR', 'Manager'],
+  get_onboarding_status: ['HR', 'Manager', 'IT', 'Finance'],
+  get_offboarding_status: ['HR', 'Manager', 'IT', 'Finance'],
+  list_pending_approvals: ['HR', 'Manager'],
+  list_sla_risks: ['HR', 'Manager', 'IT'],
+  get_employee_details: ['HR', 'Manager', 'IT', 'Finance'],
+  list_pending_pos: PO_VIEWERS,
+  approve_po: PO_APPROVERS,
+  reject_po: PO_APPROVERS,
+  reassign_po: PO_APPROVERS,
+  get_po_approval_chain: PO_VIEWERS,
+  create_task: TEAM_LEADS,
+  assign_task: TEAM_LEADS,
+  update_task: TEAM_LEADS,
+  replace_team_member: TEAM_LEADS,
+  list_team_members: [...TEAM_LEADS, 'HR', 'IT'],
+  create_invoice: FINANCE,
+  send_invoice: FINANCE,
+  get_invoice: FINANCE,
+  record_payment: FINANCE,
+  issue_credit_note: FINANCE,
+  cancel_invoice: FINANCE,
+  send_payment_reminder: FINANCE,
+  get_collection_status: FINANCE,
+  log_collection_action: FINANCE,
+}
+
+// Which roles may get each MCP prompt; a prompt embeds the records it is about, so it
+// follows the roles of the tools that read them
+export const promptRoles: Record<string, Role[]> = {
+  onboard_new_hire: ['HR', 'Manager'],
+  offboard_employee: ['HR', 'Manager'],
+  review_pending_approvals: ['HR', 'Manager', ...PO_APPROVERS],
+  chase_overdue_invoice: FINANCE,
+}
+
+// Routes reachable without a token
+const publicPaths = new Set(['/', '/about', '/healthz', '/catalog', '/style.css', '/logo.png'])
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+const base64UrlDecode = (segment: string) => Buffer.from(segment, 'base64url')
+
+let publicKey: crypto.KeyObject | undefined
+const getPublicKey = () => {
+  if (!publicKey && config.auth.jwtPublicKeyFile) {
+    publicKey = crypto.createPublicKey(fs.readFileSync(config.auth.jwtPublicKeyFile))
+  }
+  return publicKey
+}
+
+function verifySignature(alg: string, signingInput: string, signature: Buffer): boolean {
+  if (alg === 'HS256') {
+    if (!config.auth.jwtSecret) return false
+    const expected = crypto.createHmac('sha256', config.auth.jwtSecret).update(signingInput).digest()
+    return expected.length === signature.length && crypto.timingSafeEqual(expected, signature)
+  }
+
+  const key = getPublicKey()
+  if (!key) return false
+  if (alg === 'RS256') {
+    return crypto.verify('RSA-SHA256', Buffer.from(signingInput), key, signature)
+  }
+  if (alg === 'ES256') {
+    return crypto.verify('SHA256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' }, signature)
+  }
+  return false
+}
+
+// Verify a compact JWS and map its claims onto an Identity
+export function verifyToken(token: string): Identity {
+  const parts = token.split('.')
+  if (parts.length !== 3) throw new AuthError('Malformed token')
+
+  let header: { alg?: string }
+  let claims: Record<string, unknown>
+  try {
+    header = JSON.parse(base64UrlDecode(parts[0]).toString('utf-8'))
+    claims = JSON.parse(base64UrlDecode(parts[1]).toString('utf-8'))
+  } catch {
+    throw new AuthError('Malformed token')
+  }
+
+  if (!header.alg || !verifySignature(header.alg, `${parts[0]}.${parts[1]}`, base64UrlDecode(parts[2]))) {
+    throw new AuthError('Invalid token signature')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  if (typeof claims.exp === 'number' && claims.exp < now) throw new AuthError('Token expired')
+  if (typeof claims.nbf === 'number' && claims.nbf > now) throw new AuthError('Token not yet valid')
+  if (config.auth.issuer && claims.iss !== config.auth.issuer) throw new AuthError('Unexpected token issuer')
+  if (config.auth.audience) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!aud.includes(config.auth.audience)) throw new AuthError('Unexpected token audience')
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new AuthError('Token has no subject')
+
+  const rawRoles = Array.isArray(claims.roles) ? claims.roles : typeof claims.roles === 'string' ? [claims.roles] : []
+  const roles = rawRoles.filter((role): role is Role => (ROLES as readonly string[]).includes(role))
+
+  return {
+    id: claims.sub,
+    name: typeof claims.name === 'string' && claims.name ? claims.name : claims.sub,
+    roles,
+  }
+}
+
+export const hasAnyRole = (identity: Identity, roles: readonly string[]) =>
+  identity.roles.some((role) => roles.includes(role))
+
+// Express middleware: resolves req.user from the Authorization header
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (!config.auth.enabled || publicPaths.has(req.path)) return next()
+
+  const header = req.headers.authorization
+  if (!header || !header.startsWith('Bearer ')) {
+    res.setHeader('WWW-Authenticate', 'Bearer')
+    return res.status(401).json({ error: 'Missing bearer token' })
+  }
+
+  try {
+    req.user = verifyToken(header.slice('Bearer '.length).trim())
+    next()
+  } catch (error) {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"')
+    return res.status(401).json({ error: error instanceof AuthError ? error.message : 'Invalid token' })
+  }
+}
+
+// Express middleware factory: only lets through callers holding one of the given roles
+export function authorize(...roles: Role[]) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    if (!config.auth.enabled) return next()
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' })
+    if (!hasAnyRole(req.user, roles)) {
+      return res.status(403).json({ error: `Requires one of the roles: ${roles.join(', ')}` })
+    }
+    next()
+  }
+  // Read by the route catalog
+  return Object.assign(middleware, { roles })
+}
+
+// Actor recorded in history/audit trails: the authenticated identity, or the
+// caller-supplied value when auth is disabled
+export const actorOf = (req: Request, fallback: string) => req.user?.name ?? fallback
+
+// MCP transports read req.auth; the identity travels in AuthInfo.extra
+export function toAuthInfo(identity: Identity, token: string): AuthInfo {
+  return { token, clientId: identity.id, scopes: identity.roles, extra: { identity } }
+}
+
+export const identityFromAuthInfo = (authInfo?: AuthInfo) =>
+  authInfo?.extra?.identity as Identity | undefined
+
+export function canInvokeTool(identity: Identity, toolName: string): boolean {
+  const roles = toolRoles[toolName]
+  return !!roles && hasAnyRole(identity, roles)
+}
+
+export function canGetPrompt(identity: Identity, promptName: string): boolean {
+  const roles = promptRoles[promptName]
+  return !!roles && hasAnyRole(identity, roles)
+}
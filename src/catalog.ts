@@ -0,0 +1,125 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from 'express'
+import type { McpServer, RegisteredPrompt, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { toJsonSchemaCompat } from '@modelcontextprotocol/sdk/server/zod-json-schema-compat.js'
+import type { AnyObjectSchema } from '@modelcontextprotocol/sdk/server/zod-compat.js'
+
+export interface RouteInput {
+  query?: AnyObjectSchema
+  body?: AnyObjectSchema
+}
+
+interface RouteDoc {
+  description: string
+  input?: RouteInput
+}
+
+export interface CatalogRoute {
+  method: string
+  path: string
+  description: string
+  // Roles accepted when auth is enabled; absent for public routes
+  roles?: string[]
+  params?: string[]
+  input?: { query?: Record<string, unknown>; body?: Record<string, unknown> }
+}
+
+export interface CatalogTool {
+  name: string
+  description: string
+  roles: string[]
+  inputSchema: Record<string, unknown>
+  // structuredContent of a successful call
+  outputSchema?: Record<string, unknown>
+}
+
+export interface CatalogPrompt {
+  name: string
+  description: string
+  roles: string[]
+  arguments: Array<{ name: string; description: string; required: boolean }>
+}
+
+export interface Catalog {
+  routes: CatalogRoute[]
+  mcp: { endpoint: string; transport: string; tools: CatalogTool[]; prompts: CatalogPrompt[] }
+}
+
+// Middleware that only carries documentation for the catalog; put it first in a route:
+// app.get('/path', describeRoute('What it does', { query }), authorize(...), handler)
+export function describeRoute(description: string, input?: RouteInput): RequestHandler {
+  const handler = (req: Request, res: Response, next: NextFunction) => next()
+  return Object.assign(handler, { routeDoc: { description, input } satisfies RouteDoc })
+}
+
+const toJsonSchema = (schema: AnyObjectSchema) => toJsonSchemaCompat(schema, { strictUnions: true, pipeStrategy: 'input' })
+
+interface Layer {
+  route?: { path: string; methods: Record<string, boolean>; stack: Array<{ handle: { routeDoc?: RouteDoc; roles?: string[] } }> }
+}
+
+// Every route registered on the app, in registration order. Routes without describeRoute are
+// still listed so nothing served is missing from the catalog.
+export function routeCatalog(app: Express): CatalogRoute[] {
+  const stack: Layer[] = (app as unknown as { _router?: { stack: Layer[] } })._router?.stack ?? []
+
+  return stack
+    .filter((layer) => layer.route)
+    .flatMap((layer) => {
+      const route = layer.route!
+      const doc = route.stack.map((l) => l.handle.routeDoc).find(Boolean)
+      const roles = route.stack.map((l) => l.handle.roles).find(Boolean)
+      const params = [...route.path.matchAll(/:(\w+)/g)].map((m) => m[1])
+      const input = doc?.input && {
+        ...(doc.input.query && { query: toJsonSchema(doc.input.query) }),
+        ...(doc.input.body && { body: toJsonSchema(doc.input.body) }),
+      }
+
+      return Object.keys(route.methods)
+        .filter((method) => method !== '_all')
+        .map((method) => ({
+          method: method.toUpperCase(),
+          path: route.path,
+          description: doc?.description ?? '',
+          ...(roles && { roles }),
+          ...(params.length > 0 && { params }),
+          ...(input && { input }),
+        }))
+    })
+}
+
+// The same definitions tools/list returns. McpServer exposes no public tool registry, so
+// this reads the one it keeps internally.
+export function toolCatalog(server: McpServer, rolesFor: (tool: string) => string[] | undefined): CatalogTool[] {
+  const tools = (server as unknown as { _registeredTools: Record<string, RegisteredTool> })._registeredTools
+  return Object.entries(tools)
+    .filter(([, tool]) => tool.enabled)
+    .map(([name, tool]) => ({
+      name,
+      description: tool.description ?? '',
+      roles: rolesFor(name) ?? [],
+      inputSchema: tool.inputSchema ? toJsonSchema(tool.inputSchema) : { type: 'object', properties: {} },
+      outputSchema: tool.outputSchema ? toJsonSchemaCompat(tool.outputSchema, { strictUnions: true, pipeStrategy: 'output' }) : undefined,
+    }))
+}
+
+// The same definitions prompts/list returns, read from McpServer's internal registry like the tools
+export function promptCatalog(server: McpServer, rolesFor: (prompt: string) => string[] | undefined): CatalogPrompt[] {
+  const prompts = (server as unknown as { _registeredPrompts: Record<string, RegisteredPrompt> })._registeredPrompts
+  return Object.entries(prompts)
+    .filter(([, prompt]) => prompt.enabled)
+    .map(([name, prompt]) => {
+      const schema = prompt.argsSchema
+        ? (toJsonSchema(prompt.argsSchema) as { properties?: Record<string, { description?: string }>; required?: string[] })
+        : {}
+      return {
+        name,
+        description: prompt.description ?? '',
+        roles: rolesFor(name) ?? [],
+        arguments: Object.entries(schema.properties ?? {}).map(([arg, property]) => ({
+          name: arg,
+          description: property.description ?? '',
+          required: schema.required?.includes(arg) ?? false,
+        })),
+      }
+    })
+}
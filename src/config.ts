@@ -0,0 +1,92 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+export type StoreDriver = 'memory' | 'file'
+
+// Runtime configuration, read once from the environment
+export const config = {
+  // 'memory' keeps everything in process; 'file' journals every write to disk
+  storeDriver: (process.env.NEXUS_STORE === 'file' ? 'file' : 'memory') as StoreDriver,
+  // Directory holding the JSON journals when storeDriver is 'file'
+  dataDir: process.env.NEXUS_DATA_DIR || path.join(__dirname, '..', 'data'),
+  // Set NEXUS_SEED=false to start with empty collections instead of the demo data
+  seedDemoData: process.env.NEXUS_SEED !== 'false',
+  // PO approval rules loaded into an empty rule store on first start
+  approvalMatrixFile: process.env.NEXUS_APPROVAL_MATRIX || path.join(__dirname, '..', 'config', 'approval-matrix.json'),
+  // Default AR aging bucket boundaries in days past due (overridable per request)
+  arAgingBuckets: (process.env.NEXUS_AR_AGING_BUCKETS || '30,60,90').split(',').map(Number),
+  // Tax rate table (by tax code and jurisdiction) and the jurisdiction used when an invoice names none
+  taxRatesFile: process.env.NEXUS_TAX_RATES || path.join(__dirname, '..', 'config', 'tax-rates.json'),
+  defaultTaxJurisdiction: process.env.NEXUS_TAX_JURISDICTION || 'US',
+  // Dunning: reminder/escalation policy, how often the scheduler runs (0 disables it)
+  // and who receives escalations
+  dunningPolicyFile: process.env.NEXUS_DUNNING_POLICY || path.join(__dirname, '..', 'config', 'dunning-policy.json'),
+  dunningIntervalMs: Number(process.env.NEXUS_DUNNING_INTERVAL_MS ?? 15 * 60 * 1000),
+  collectionsTeamEmail: process.env.NEXUS_COLLECTIONS_EMAIL || 'collections@nexus.example.com',
+  // 'outbox' writes each notification as a JSON file; 'console' just logs it
+  notifier: (process.env.NEXUS_NOTIFIER === 'console' ? 'console' : 'outbox') as 'outbox' | 'console',
+  outboxDir: process.env.NEXUS_OUTBOX_DIR || path.join(__dirname, '..', 'data', 'outbox'),
+  // Currency AR reports are converted into, and the dated FX table used to convert
+  reportingCurrency: (process.env.NEXUS_REPORTING_CURRENCY || 'USD').toUpperCase(),
+  fxRatesFile: process.env.NEXUS_FX_RATES || path.join(__dirname, '..', 'config', 'fx-rates.json'),
+  // Onboarding/offboarding workflow definitions (states, guarded actions, steps, variants)
+  workflowsFile: process.env.NEXUS_WORKFLOWS || path.join(__dirname, '..', 'config', 'workflows.json'),
+  // Provisioning connectors: the bundled mocks can add latency and fail on purpose
+  // (NEXUS_CONNECTOR_FAIL=email,network) to exercise retries
+  connectors: {
+    latencyMs: Number(process.env.NEXUS_CONNECTOR_LATENCY_MS ?? 0),
+    failureRate: Number(process.env.NEXUS_CONNECTOR_FAILURE_RATE ?? 0),
+    failSystems: (process.env.NEXUS_CONNECTOR_FAIL || '').split(',').map((s) => s.trim()).filter(Boolean),
+    maxAttempts: Math.max(Number(process.env.NEXUS_CONNECTOR_MAX_ATTEMPTS ?? 3), 1),
+    retryDelayMs: Number(process.env.NEXUS_CONNECTOR_RETRY_DELAY_MS ?? 200),
+  },
+  // Onboarding/offboarding SLA checks: how often overdue steps are escalated (0 disables
+  // the background check) and who is notified
+  slaIntervalMs: Number(process.env.NEXUS_SLA_INTERVAL_MS ?? 60 * 60 * 1000),
+  hrEscalationEmail: process.env.NEXUS_HR_ESCALATION_EMAIL || 'hr-operations@nexus.example.com',
+  // Employee IDs: <prefix>-<year>-<sequence>-<check digit>, e.g. EMP-2026-00042-7. The
+  // sequence is persisted and restarts each year unless perYear is off.
+  employeeIds: {
+    prefix: process.env.NEXUS_EMPLOYEE_ID_PREFIX || 'EMP',
+    sequenceDigits: Math.max(Number(process.env.NEXUS_EMPLOYEE_ID_DIGITS ?? 5), 1),
+    perYear: process.env.NEXUS_EMPLOYEE_ID_PER_YEAR !== 'false',
+    checkDigit: process.env.NEXUS_EMPLOYEE_ID_CHECK_DIGIT !== 'false',
+  },
+  // Employee documents (NDAs, ID proofs, ...) uploaded through MCP are stored under this
+  // directory; maxBytes caps a single decoded upload
+  documents: {
+    dir: process.env.NEXUS_DOCUMENTS_DIR || path.join(__dirname, '..', 'data', 'documents'),
+    maxBytes: Number(process.env.NEXUS_DOCUMENT_MAX_BYTES ?? 10 * 1024 * 1024),
+  },
+  // MCP over HTTP. 'stateful' gives each client a session (Mcp-Session-Id header) that lasts
+  // until DELETE /mcp or sessionIdleMs without a request, and can stream notifications;
+  // 'stateless' serves each request on its own, for hosts that do not keep the process around
+  mcp: {
+    sessionMode: (process.env.NEXUS_MCP_SESSIONS === 'stateless' ? 'stateless' : 'stateful') as 'stateful' | 'stateless',
+    sessionIdleMs: Number(process.env.NEXUS_MCP_SESSION_IDLE_MS ?? 30 * 60 * 1000),
+  },
+  // Largest JSON request body accepted; base64 document uploads arrive through /mcp
+  jsonBodyLimit: process.env.NEXUS_JSON_BODY_LIMIT || '15mb',
+  // Letterhead printed on generated invoices
+  company: {
+    name: process.env.NEXUS_COMPANY_NAME || 'Nexus Corp',
+    address: (process.env.NEXUS_COMPANY_ADDRESS || '100 Market Street|San Francisco, CA 94105').split('|'),
+    email: process.env.NEXUS_COMPANY_EMAIL || 'billing@nexus.example.com',
+    taxId: process.env.NEXUS_COMPANY_TAX_ID || '',
+  },
+  auth: {
+    // Defaults to on whenever a verification key is configured; NEXUS_AUTH=on|off overrides
+    enabled: process.env.NEXUS_AUTH
+      ? process.env.NEXUS_AUTH !== 'off'
+      : !!(process.env.NEXUS_JWT_SECRET || process.env.NEXUS_JWT_PUBLIC_KEY_FILE),
+    // HS256 shared secret
+    jwtSecret: process.env.NEXUS_JWT_SECRET,
+    // RS256/ES256 public key (PEM file)
+    jwtPublicKeyFile: process.env.NEXUS_JWT_PUBLIC_KEY_FILE,
+    issuer: process.env.NEXUS_JWT_ISSUER,
+    audience: process.env.NEXUS_JWT_AUDIENCE,
+  },
+}
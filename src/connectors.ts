@@ -0,0 +1,228 @@
+import { config } from './config.js'
+import { createRepository } from './store.js'
+
+export const SYSTEMS = ['hrms', 'email', 'network', 'projectTools'] as const
+
+export type SystemId = (typeof SYSTEMS)[number]
+
+export interface ConnectorSubject {
+  employeeId: string
+  name: string
+  email?: string
+  department?: string
+  designation?: string
+}
+
+export interface ProvisionedAccount {
+  accountId: string
+  details: Record<string, string>
+}
+
+export interface AccountStatus {
+  state: 'active' | 'disabled' | 'absent'
+  accountId?: string
+}
+
+// Adapter for one downstream system. `idempotencyKey` lets a retried call return the
+// account created by an earlier attempt whose response was lost instead of creating another.
+export interface ProvisioningConnector {
+  system: SystemId
+  provision(subject: ConnectorSubject, idempotencyKey: string): Promise<ProvisionedAccount>
+  deprovision(subject: ConnectorSubject, idempotencyKey: string): Promise<AccountStatus>
+  status(employeeId: string): Promise<AccountStatus>
+}
+
+export class ConnectorError extends Error {
+  constructor(public system: SystemId, message: string) {
+    super(`${system}: ${message}`)
+    this.name = 'ConnectorError'
+  }
+}
+
+// Per-system outcome kept on onboarding/offboarding records
+export interface SystemResult {
+  status: 'provisioned' | 'deprovisioned' | 'failed'
+  accountId?: string
+  details?: Record<string, string>
+  error?: string
+  attempts: number
+  idempotencyKey: string
+  updatedAt: string
+}
+
+// --- Local mock connectors ---
+
+interface MockAccount {
+  key: string
+  system: SystemId
+  employeeId: string
+  accountId: string
+  details: Record<string, string>
+  state: 'active' | 'disabled'
+  idempotencyKeys: string[]
+}
+
+interface MockOptions {
+  latencyMs: number
+  // Probability (0-1) that any call fails
+  failureRate: number
+  // Always fail, to exercise retries and partial results
+  alwaysFail: boolean
+}
+
+// Accounts "created" in the mock systems; persisted like any other collection
+const mockAccounts = createRepository<MockAccount>('connectorAccounts', (a) => a.key)
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.|\.$/g, '')
+
+// Simulates a directory-style API: latency, random or forced failures, idempotent creates
+abstract class MockConnector implements ProvisioningConnector {
+  abstract system: SystemId
+  protected abstract createAccount(subject: ConnectorSubject): ProvisionedAccount
+
+  constructor(private options: MockOptions) {}
+
+  private async call() {
+    if (this.options.latencyMs > 0) await sleep(this.options.latencyMs)
+    if (this.options.alwaysFail || Math.random() < this.options.failureRate) {
+      throw new ConnectorError(this.system, 'simulated upstream failure (503 Service Unavailable)')
+    }
+  }
+
+  private accountFor(employeeId: string) {
+    return mockAccounts.get(`${this.system}|${employeeId}`)
+  }
+
+  async provision(subject: ConnectorSubject, idempotencyKey: string): Promise<ProvisionedAccount> {
+    await this.call()
+    const existing = this.accountFor(subject.employeeId)
+    if (existing && (existing.state === 'active' || existing.idempotencyKeys.includes(idempotencyKey))) {
+      return { accountId: existing.accountId, details: existing.details }
+    }
+
+    const created = this.createAccount(subject)
+    mockAccounts.save({
+      key: `${this.system}|${subject.employeeId}`,
+      system: this.system,
+      employeeId: subject.employeeId,
+      ...created,
+      state: 'active',
+      idempotencyKeys: [...(existing?.idempotencyKeys ?? []), idempotencyKey],
+    })
+    return created
+  }
+
+  async deprovision(subject: ConnectorSubject, idempotencyKey: string): Promise<AccountStatus> {
+    await this.call()
+    const account = this.accountFor(subject.employeeId)
+    if (!account) return { state: 'absent' }
+
+    account.state = 'disabled'
+    if (!account.idempotencyKeys.includes(idempotencyKey)) account.idempotencyKeys.push(idempotencyKey)
+    mockAccounts.save(account)
+    return { state: 'disabled', accountId: account.accountId }
+  }
+
+  async status(employeeId: string): Promise<AccountStatus> {
+    await this.call()
+    const account = this.accountFor(employeeId)
+    return account ? { state: account.state, accountId: account.accountId } : { state: 'absent' }
+  }
+}
+
+class HrmsConnector extends MockConnector {
+  system = 'hrms' as const
+  protected createAccount(subject: ConnectorSubject) {
+    return {
+      accountId: `HRMS-${subject.employeeId}`,
+      details: { profile: `/hrms/employees/${subject.employeeId}`, department: subject.department ?? '' },
+    }
+  }
+}
+
+class EmailDirectoryConnector extends MockConnector {
+  system = 'email' as const
+  protected createAccount(subject: ConnectorSubject) {
+    const mailbox = subject.email || `${slug(subject.name)}@nexus.example.com`
+    return { accountId: `DIR-${subject.employeeId}`, details: { mailbox, groups: [subject.department, 'all-staff'].filter(Boolean).join(',') } }
+  }
+}
+
+class NetworkConnector extends MockConnector {
+  system = 'network' as const
+  protected createAccount(subject: ConnectorSubject) {
+    return { accountId: `VPN-${subject.employeeId}`, details: { username: slug(subject.name), vpnProfile: 'standard' } }
+  }
+}
+
+class ProjectToolsConnector extends MockConnector {
+  system = 'projectTools' as const
+  protected createAccount(subject: ConnectorSubject) {
+    return { accountId: `PT-${subject.employeeId}`, details: { seat: subject.designation ? `member (${subject.designation})` : 'member' } }
+  }
+}
+
+// One connector per system. Replace a mock with a real adapter (Workday, Entra ID, ...)
+// by implementing ProvisioningConnector and returning it here.
+export function createConnectors(): Record<SystemId, ProvisioningConnector> {
+  const { latencyMs, failureRate, failSystems } = config.connectors
+  const options = (system: SystemId) => ({ latencyMs, failureRate, alwaysFail: failSystems.includes(system) })
+  return {
+    hrms: new HrmsConnector(options('hrms')),
+    email: new EmailDirectoryConnector(options('email')),
+    network: new NetworkConnector(options('network')),
+    projectTools: new ProjectToolsConnector(options('projectTools')),
+  }
+}
+
+// --- Running a batch ---
+
+// Call one system with retries and exponential backoff; never throws
+async function attempt(
+  run: (key: string) => Promise<{ accountId?: string; details?: Record<string, string> }>,
+  idempotencyKey: string,
+  success: SystemResult['status'],
+  previousAttempts: number
+): Promise<SystemResult> {
+  const { maxAttempts, retryDelayMs } = config.connectors
+  let lastError = ''
+  for (let i = 0; i < maxAttempts; i++) {
+    try {
+      const outcome = await run(idempotencyKey)
+      return { status: success, ...outcome, attempts: previousAttempts + i + 1, idempotencyKey, updatedAt: new Date().toISOString() }
+    } catch (error) {
+      lastError = (error as Error).message
+      if (i < maxAttempts - 1) await sleep(retryDelayMs * 2 ** i)
+    }
+  }
+  return { status: 'failed', error: lastError, attempts: previousAttempts + maxAttempts, idempotencyKey, updatedAt: new Date().toISOString() }
+}
+
+// Provision or deprovision several systems independently: one system failing does not
+// stop the others, and a later call with the same key retries only what is passed in.
+// onResult is called as each system finishes, for callers reporting progress.
+export async function runConnectors(
+  connectors: Record<SystemId, ProvisioningConnector>,
+  operation: 'provision' | 'deprovision',
+  subject: ConnectorSubject,
+  systems: SystemId[],
+  previous: Partial<Record<SystemId, SystemResult>> = {},
+  onResult?: (system: SystemId, result: SystemResult) => void
+): Promise<Partial<Record<SystemId, SystemResult>>> {
+  const results = await Promise.all(
+    systems.map(async (system) => {
+      const connector = connectors[system]
+      const key = previous[system]?.idempotencyKey ?? `${subject.employeeId}:${system}:${operation}`
+      const priorAttempts = previous[system]?.status === 'failed' ? previous[system]!.attempts : 0
+      const result =
+        operation === 'provision'
+          ? await attempt((k) => connector.provision(subject, k), key, 'provisioned', priorAttempts)
+          : await attempt(async (k) => ({ accountId: (await connector.deprovision(subject, k)).accountId }), key, 'deprovisioned', priorAttempts)
+      onResult?.(system, result)
+      return [system, result] as const
+    })
+  )
+  return Object.fromEntries(results)
+}
@@ -0,0 +1,181 @@
+import { z } from 'zod'
+import { createRepository } from './store.js'
+
+const addressSchema = z.object({
+  line1: z.string().min(1),
+  line2: z.string().optional(),
+  city: z.string().min(1),
+  region: z.string().optional(),
+  postal_code: z.string().min(1),
+  country: z.string().length(2).describe('ISO 3166-1 alpha-2 country code'),
+})
+
+const contactSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+  phone: z.string().optional(),
+  role: z.enum(['billing', 'primary', 'other']).default('primary'),
+})
+
+export const customerSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+  billing_address: addressSchema,
+  contacts: z.array(contactSchema).default([]),
+  default_currency: z.string().length(3).default('USD'),
+  payment_terms: z.string().regex(/^Net \d+$|^Due on receipt$/, "payment_terms must look like 'Net 30' or 'Due on receipt'").default('Net 30'),
+  credit_limit: z.number().nonnegative().default(0),
+  // Used by the tax engine when an invoice does not name a jurisdiction (e.g. GB, US-CA)
+  tax_jurisdiction: z.string().optional(),
+  tax_exempt: z.boolean().default(false),
+  tax_exemption_reason: z.string().optional(),
+})
+
+export type CustomerInput = z.input<typeof customerSchema>
+export type Customer = z.output<typeof customerSchema> & { id: string; created_at: string; updated_at: string }
+
+export const customers = createRepository<Customer>('customers', (c) => c.id, [
+  {
+    id: 'CUST-001',
+    name: 'Acme Corporation',
+    billing_address: { line1: '1 Infinite Loop', city: 'Springfield', region: 'IL', postal_code: '62701', country: 'US' },
+    contacts: [{ name: 'Wile E. Coyote', email: 'ap@acme.example.com', role: 'billing' }],
+    default_currency: 'USD',
+    payment_terms: 'Net 30',
+    credit_limit: 50000,
+    tax_jurisdiction: 'US',
+    tax_exempt: false,
+    created_at: '2023-09-01T00:00:00.000Z',
+    updated_at: '2023-09-01T00:00:00.000Z',
+  },
+])
+
+export function nextCustomerId(): string {
+  let n = customers.count() + 1
+  while (customers.has(`CUST-${String(n).padStart(3, '0')}`)) n++
+  return `CUST-${String(n).padStart(3, '0')}`
+}
+
+// Billing contact if there is one, otherwise the first contact
+export const billingEmail = (customer: Customer) =>
+  (customer.contacts.find((c) => c.role === 'billing') ?? customer.contacts[0])?.email
+
+// 'Net 30' -> 30, 'Due on receipt' -> 0
+export const termsToDays = (terms: string) => Number(/^Net (\d+)$/.exec(terms)?.[1] ?? 0)
+
+export const formatAddress = (customer: Customer) => {
+  const a = customer.billing_address
+  return [a.line1, a.line2, [a.city, a.region, a.postal_code].filter(Boolean).join(', '), a.country].filter(
+    (line): line is string => !!line
+  )
+}
+
+// --- Statements ---
+
+// The invoice fields a statement needs; index.ts invoices satisfy this structurally
+export interface StatementInvoice {
+  id: string
+  customer_id: string
+  currency: string
+  invoice_date: string
+  due_date: string
+  status: string
+  total_amount: number
+  balance: number
+  payments: Array<{ id: string; type: 'payment' | 'refund'; amount: number; payment_date: string; reference: string; method: string }>
+  credit_notes?: Array<{ id: string; amount: number; issue_date: string; reason: string }>
+}
+
+export interface StatementEntry {
+  date: string
+  type: 'invoice' | 'payment' | 'refund' | 'credit_note'
+  reference: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface CustomerStatement {
+  customer_id: string
+  customer_name: string
+  currency: string
+  period: { start: string; end: string }
+  opening_balance: number
+  entries: StatementEntry[]
+  closing_balance: number
+  open_invoices: Array<{ invoice_id: string; invoice_date: string; due_date: string; status: string; balance: number }>
+  other_currencies: string[]
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Activity for one currency in [start, end] with a running balance carried from
+// everything that happened before the period
+export function buildStatement(
+  customer: Customer,
+  invoices: StatementInvoice[],
+  currency: string,
+  start: string,
+  end: string
+): CustomerStatement {
+  const own = invoices.filter((inv) => inv.customer_id === customer.id && inv.status !== 'Draft' && inv.status !== 'Cancelled')
+  const inCurrency = own.filter((inv) => inv.currency === currency)
+
+  const movements = inCurrency.flatMap((inv) => [
+    {
+      date: inv.invoice_date,
+      type: 'invoice' as const,
+      reference: inv.id,
+      description: `Invoice ${inv.id} (due ${inv.due_date})`,
+      amount: inv.total_amount,
+    },
+    ...inv.payments.map((p) => ({
+      date: p.payment_date,
+      type: p.type,
+      reference: p.id,
+      description: `${p.type === 'refund' ? 'Refund' : 'Payment'} on ${inv.id} via ${p.method}${p.reference ? ` (ref ${p.reference})` : ''}`,
+      amount: p.type === 'refund' ? p.amount : -p.amount,
+    })),
+    ...(inv.credit_notes ?? []).map((cn) => ({
+      date: cn.issue_date,
+      type: 'credit_note' as const,
+      reference: cn.id,
+      description: `Credit note on ${inv.id}: ${cn.reason}`,
+      amount: -cn.amount,
+    })),
+  ])
+
+  const opening = round2(movements.filter((m) => m.date < start).reduce((sum, m) => sum + m.amount, 0))
+
+  let running = opening
+  const entries = movements
+    .filter((m) => m.date >= start && m.date <= end)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.type === 'invoice' ? -1 : 1))
+    .map((m) => {
+      running = round2(running + m.amount)
+      return {
+        date: m.date,
+        type: m.type,
+        reference: m.reference,
+        description: m.description,
+        debit: m.amount > 0 ? m.amount : 0,
+        credit: m.amount < 0 ? -m.amount : 0,
+        balance: running,
+      }
+    })
+
+  return {
+    customer_id: customer.id,
+    customer_name: customer.name,
+    currency,
+    period: { start, end },
+    opening_balance: opening,
+    entries,
+    closing_balance: running,
+    open_invoices: inCurrency
+      .filter((inv) => inv.balance > 0 && inv.invoice_date <= end)
+      .map((inv) => ({ invoice_id: inv.id, invoice_date: inv.invoice_date, due_date: inv.due_date, status: inv.status, balance: inv.balance })),
+    other_currencies: [...new Set(own.map((inv) => inv.currency))].filter((c) => c !== currency),
+  }
+}
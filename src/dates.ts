@@ -0,0 +1,4 @@
+// A calendar date as YYYY-MM-DD. Date.parse rolls impossible days over (2026-02-30 becomes
+// March 2), so the value must also come back unchanged from toISOString.
+export const isDate = (d: string | undefined): d is string =>
+  !!d && /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(Date.parse(d)) && new Date(d).toISOString().slice(0, 10) === d
@@ -0,0 +1,165 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { config } from './config.js'
+import { createRepository } from './store.js'
+
+export const DOCUMENT_TYPES = ['nda', 'id_proof', 'background_check', 'offer_letter', 'tax_form', 'other'] as const
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number]
+
+export interface EmployeeDocument {
+  id: string
+  employeeId: string
+  type: DocumentType
+  fileName: string
+  contentType: string
+  // Path under the document store for uploaded payloads, or an external reference
+  // (e-signature envelope, DMS link) for attached ones
+  fileReference: string
+  storage: 'local' | 'external'
+  checksum?: string // sha256, hex
+  size?: number
+  signer?: string
+  signedAt?: string
+  expiresAt?: string
+  status: 'Pending Verification' | 'Verified' | 'Rejected'
+  uploadedBy: string
+  uploadedAt: string
+  verifiedBy?: string
+  verifiedAt?: string
+  reviewNotes?: string
+}
+
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentError'
+  }
+}
+
+export const documents = createRepository<EmployeeDocument>('documents', (d) => d.id)
+
+// Onboarding compliance flags and the verified document each one needs. An NDA only
+// counts once it is signed; any document past its expiry date no longer counts.
+export const COMPLIANCE_DOCUMENTS = {
+  ndaSigned: { type: 'nda', needsSignature: true },
+  idVerified: { type: 'id_proof', needsSignature: false },
+  backgroundCheck: { type: 'background_check', needsSignature: false },
+} as const
+
+export type ComplianceFlag = keyof typeof COMPLIANCE_DOCUMENTS
+
+let sequence = 0
+const nextDocumentId = () => {
+  let id: string
+  do {
+    id = `DOC-${Date.now().toString(36).toUpperCase()}-${++sequence}`
+  } while (documents.has(id))
+  return id
+}
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+
+const safeName = (fileName: string) => path.basename(fileName).replace(/[^\w.-]+/g, '_') || 'document'
+
+interface DocumentInput {
+  employeeId: string
+  type: DocumentType
+  fileName: string
+  contentType?: string
+  contentBase64?: string
+  fileReference?: string
+  checksum?: string
+  signer?: string
+  signedAt?: string
+  expiresAt?: string
+  uploadedBy: string
+}
+
+// Store an uploaded payload under <documentsDir>/<employeeId>/, or record a reference to
+// a document held elsewhere. A supplied checksum must match the uploaded bytes.
+export async function addDocument(input: DocumentInput): Promise<EmployeeDocument> {
+  if (!input.contentBase64 && !input.fileReference) {
+    throw new DocumentError('Either contentBase64 or fileReference is required')
+  }
+
+  const id = nextDocumentId()
+  const base = {
+    id,
+    employeeId: input.employeeId,
+    type: input.type,
+    fileName: input.fileName,
+    contentType: input.contentType || 'application/octet-stream',
+    signer: input.signer,
+    signedAt: input.signedAt,
+    expiresAt: input.expiresAt,
+    status: 'Pending Verification' as const,
+    uploadedBy: input.uploadedBy,
+    uploadedAt: new Date().toISOString(),
+  }
+
+  if (!input.contentBase64) {
+    return documents.save({ ...base, storage: 'external', fileReference: input.fileReference!, checksum: input.checksum?.toLowerCase() })
+  }
+
+  const data = Buffer.from(input.contentBase64, 'base64')
+  if (data.length === 0) throw new DocumentError('contentBase64 is empty or not valid base64')
+  if (data.length > config.documents.maxBytes) {
+    throw new DocumentError(`Document is ${data.length} bytes; the limit is ${config.documents.maxBytes}`)
+  }
+  const checksum = sha256(data)
+  if (input.checksum && input.checksum.toLowerCase() !== checksum) {
+    throw new DocumentError(`Checksum mismatch: expected ${input.checksum}, received content hashes to ${checksum}`)
+  }
+
+  const relative = path.join(safeName(input.employeeId), `${id}-${safeName(input.fileName)}`)
+  const target = path.join(config.documents.dir, relative)
+  await fs.promises.mkdir(path.dirname(target), { recursive: true })
+  await fs.promises.writeFile(target, data)
+
+  return documents.save({ ...base, storage: 'local', fileReference: relative, checksum, size: data.length })
+}
+
+// Re-hash a locally stored payload; null when the file is intact
+export async function integrityProblem(doc: EmployeeDocument): Promise<string | null> {
+  if (doc.storage !== 'local') return null
+  try {
+    const data = await fs.promises.readFile(path.join(config.documents.dir, doc.fileReference))
+    return sha256(data) === doc.checksum ? null : 'stored file does not match its checksum'
+  } catch {
+    return 'stored file is missing'
+  }
+}
+
+export const isExpired = (doc: EmployeeDocument, asOf = new Date().toISOString().slice(0, 10)) =>
+  !!doc.expiresAt && doc.expiresAt < asOf
+
+// A document satisfies its compliance flag once verified, signed if required, and unexpired
+export function satisfies(doc: EmployeeDocument, flag: ComplianceFlag) {
+  const rule = COMPLIANCE_DOCUMENTS[flag]
+  return doc.type === rule.type && doc.status === 'Verified' && !isExpired(doc) && (!rule.needsSignature || (!!doc.signer && !!doc.signedAt))
+}
+
+// Why a compliance flag is not yet met, from the best document on file of the required type
+function gapFor(own: EmployeeDocument[], flag: ComplianceFlag): string {
+  const candidates = own.filter((d) => d.type === COMPLIANCE_DOCUMENTS[flag].type)
+  if (candidates.length === 0) return 'no document on file'
+  if (candidates.some((d) => d.status === 'Pending Verification')) return 'awaiting verification'
+  const verified = candidates.filter((d) => d.status === 'Verified')
+  if (verified.length === 0) return 'rejected'
+  if (verified.every((d) => isExpired(d))) return `expired on ${verified.map((d) => d.expiresAt).sort().pop()}`
+  return 'not signed'
+}
+
+// Compliance flags for an employee, derived from their verified documents
+export function documentCompliance(employeeId: string) {
+  const own = documents.filter((d) => d.employeeId === employeeId)
+  const flags = Object.fromEntries(
+    (Object.keys(COMPLIANCE_DOCUMENTS) as ComplianceFlag[]).map((flag) => [flag, own.some((d) => satisfies(d, flag))])
+  ) as Record<ComplianceFlag, boolean>
+  const missing = (Object.keys(flags) as ComplianceFlag[])
+    .filter((flag) => !flags[flag])
+    .map((flag) => ({ check: flag, documentType: COMPLIANCE_DOCUMENTS[flag].type, reason: gapFor(own, flag) }))
+  return { flags, missing }
+}
@@ -0,0 +1,241 @@
+import fs from 'fs'
+import { daysBetween } from './ar-aging.js'
+import { canTransition, transition, type InvoiceStatus } from './invoice-lifecycle.js'
+import type { Notifier } from './notifier.js'
+import type { Repository } from './store.js'
+
+export interface DunningStep {
+  id: string
+  // Days relative to the due date (negative = before it)
+  offset_days: number
+  action: 'reminder' | 'escalate'
+  subject: string
+  body: string
+}
+
+export interface DunningPolicy {
+  steps: DunningStep[]
+}
+
+export interface ScheduledReminder {
+  reminder_type: string
+  send_at: string
+  requested_by: string
+}
+
+// The invoice and collection fields the engine reads and writes; index.ts records satisfy these
+export interface DunningInvoice {
+  id: string
+  customer_id: string
+  currency: string
+  due_date: string
+  status: InvoiceStatus
+  balance: number
+}
+
+export interface DunningCollection {
+  invoice_id: string
+  status: 'Open' | 'In Progress' | 'Closed'
+  last_action: string
+  next_action_due: string
+  notes: Array<{ date: string; user: string; action: string; comment: string }>
+  // Id of the last policy step carried out
+  dunning_stage?: string | null
+  scheduled_reminders?: ScheduledReminder[]
+}
+
+export interface DunningAction {
+  invoice_id: string
+  action: string
+  detail: string
+}
+
+export interface DunningRunResult {
+  as_of_date: string
+  invoices_evaluated: number
+  actions: DunningAction[]
+}
+
+interface DunningDeps {
+  invoices: Repository<DunningInvoice>
+  collections: Repository<DunningCollection>
+  notifier: Notifier
+  policy: DunningPolicy
+  escalationRecipient: string
+  // Where customer reminders go; defaults to the customer id
+  recipientFor?: (invoice: DunningInvoice) => string
+}
+
+const ACTOR = 'Dunning Scheduler'
+const today = () => new Date().toISOString().slice(0, 10)
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * 86400000).toISOString().slice(0, 10)
+
+export function loadDunningPolicy(file: string): DunningPolicy {
+  const policy: DunningPolicy = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  policy.steps.sort((a, b) => a.offset_days - b.offset_days)
+  return policy
+}
+
+const render = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match))
+
+// Thrown by run() while another evaluation is in flight: overlapping runs would both send a
+// reminder before either saved the new dunning stage
+export class DunningRunInProgressError extends Error {
+  constructor() {
+    super('A dunning run is already in progress')
+    this.name = 'DunningRunInProgressError'
+  }
+}
+
+export function createDunningEngine(deps: DunningDeps) {
+  const { invoices, collections, notifier, policy } = deps
+  const recipientFor = deps.recipientFor ?? ((invoice: DunningInvoice) => invoice.customer_id)
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+
+  const templateValues = (invoice: DunningInvoice, asOf: string) => ({
+    invoice_id: invoice.id,
+    customer_id: invoice.customer_id,
+    currency: invoice.currency,
+    balance: invoice.balance.toFixed(2),
+    due_date: invoice.due_date,
+    days_overdue: Math.max(daysBetween(invoice.due_date, asOf), 0),
+  })
+
+  const note = (collection: DunningCollection, user: string, action: string, comment: string) =>
+    collection.notes.push({ date: new Date().toISOString(), user, action, comment })
+
+  // Send one reminder (policy step or ad-hoc type) and log it on the collection record
+  async function sendReminder(
+    invoice: DunningInvoice,
+    collection: DunningCollection,
+    reminderType: string,
+    actor: string,
+    asOf = today()
+  ) {
+    const step = policy.steps.find((s) => s.id === reminderType)
+    const values = templateValues(invoice, asOf)
+    const escalate = step?.action === 'escalate'
+
+    const sent = await notifier.send({
+      channel: 'email',
+      to: escalate ? deps.escalationRecipient : recipientFor(invoice),
+      subject: render(step?.subject ?? `Reminder: invoice {invoice_id}`, values),
+      body: render(step?.body ?? `Invoice {invoice_id} for {currency} {balance} is due on {due_date}.`, values),
+      template: reminderType,
+      invoice_id: invoice.id,
+    })
+
+    if (escalate) {
+      collection.status = 'In Progress'
+      collection.last_action = 'Escalated to collections'
+      note(collection, actor, 'Escalation', `Escalated to ${sent.to} (${sent.id})`)
+    } else {
+      if (collection.status === 'Open') collection.status = 'In Progress'
+      collection.last_action = `Reminder: ${reminderType}`
+      note(collection, actor, 'Reminder', `Sent ${reminderType} reminder to ${sent.to} (${sent.id})`)
+    }
+    return sent
+  }
+
+  // Evaluate every open invoice against the policy as of the given date, one run at a time
+  async function run(asOf = today()): Promise<DunningRunResult> {
+    if (running) throw new DunningRunInProgressError()
+    running = true
+    try {
+      return await evaluate(asOf)
+    } finally {
+      running = false
+    }
+  }
+
+  async function evaluate(asOf: string): Promise<DunningRunResult> {
+    const actions: DunningAction[] = []
+    const open = invoices.filter((inv) => (inv.status === 'Sent' || inv.status === 'Overdue') && inv.balance > 0)
+
+    for (const invoice of open) {
+      const collection = collections.get(invoice.id)
+      if (!collection || collection.status === 'Closed') continue
+
+      if (invoice.status === 'Sent' && asOf > invoice.due_date) {
+        if (!canTransition(invoice.status, 'Overdue')) continue
+        invoices.save(transition(invoice, 'Overdue'))
+        note(collection, ACTOR, 'Status', `Marked overdue (due ${invoice.due_date})`)
+        actions.push({ invoice_id: invoice.id, action: 'overdue', detail: `Due ${invoice.due_date}` })
+      }
+
+      // Ad-hoc reminders requested through POST /acc/invoices/:id/reminder
+      const pending = collection.scheduled_reminders ?? []
+      const dueReminders = pending.filter((r) => r.send_at <= asOf)
+      for (const reminder of dueReminders) {
+        try {
+          const sent = await sendReminder(invoice, collection, reminder.reminder_type, reminder.requested_by, asOf)
+          actions.push({ invoice_id: invoice.id, action: 'scheduled_reminder', detail: `${reminder.reminder_type} -> ${sent.to}` })
+          pending.splice(pending.indexOf(reminder), 1)
+        } catch (error) {
+          note(collection, ACTOR, 'Reminder Failed', `${reminder.reminder_type}: ${(error as Error).message}`)
+        }
+      }
+      collection.scheduled_reminders = pending
+
+      // Policy steps: if several became due (e.g. the scheduler was down), only the
+      // most severe one is sent and the rest are logged as skipped
+      const daysPastDue = daysBetween(invoice.due_date, asOf)
+      const stageIndex = policy.steps.findIndex((s) => s.id === collection.dunning_stage)
+      const dueSteps = policy.steps.filter((s, i) => i > stageIndex && s.offset_days <= daysPastDue)
+      let currentIndex = stageIndex
+
+      if (dueSteps.length > 0) {
+        const step = dueSteps[dueSteps.length - 1]
+        dueSteps.slice(0, -1).forEach((skipped) =>
+          note(collection, ACTOR, 'Skipped', `Skipped ${skipped.id} step; superseded by ${step.id}`)
+        )
+        try {
+          const sent = await sendReminder(invoice, collection, step.id, ACTOR, asOf)
+          collection.dunning_stage = step.id
+          currentIndex = policy.steps.indexOf(step)
+          actions.push({ invoice_id: invoice.id, action: step.action === 'escalate' ? 'escalated' : step.id, detail: `-> ${sent.to}` })
+        } catch (error) {
+          note(collection, ACTOR, 'Reminder Failed', `${step.id}: ${(error as Error).message}`)
+          actions.push({ invoice_id: invoice.id, action: 'failed', detail: (error as Error).message })
+        }
+      }
+
+      const nextStep = policy.steps[currentIndex + 1]
+      const nextScheduled = collection.scheduled_reminders.map((r) => r.send_at).sort()[0]
+      const candidates = [nextStep ? addDays(invoice.due_date, nextStep.offset_days) : '', nextScheduled ?? ''].filter(Boolean).sort()
+      collection.next_action_due = candidates[0] ?? ''
+      collections.save(collection)
+    }
+
+    return { as_of_date: asOf, invoices_evaluated: open.length, actions }
+  }
+
+  // Background evaluation; the timer is unref'd so it never keeps the process alive
+  function start(intervalMs: number) {
+    if (timer || intervalMs <= 0) return
+    timer = setInterval(async () => {
+      try {
+        const result = await run()
+        if (result.actions.length > 0) {
+          console.log(`[Dunning] ${result.actions.length} action(s) on ${result.as_of_date}`)
+        }
+      } catch (error) {
+        // A run started through POST /acc/dunning/run is still going; the next tick catches up
+        if (error instanceof DunningRunInProgressError) return
+        console.error('[Dunning] Run failed:', error)
+      }
+    }, intervalMs)
+    timer.unref()
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer)
+    timer = undefined
+  }
+
+  return { run, start, stop, sendReminder }
+}
@@ -0,0 +1,179 @@
+import type { SystemId } from './connectors.js'
+import { config } from './config.js'
+import { createRepository } from './store.js'
+
+export interface Employee {
+  id: string
+  name: string
+  email: string
+  dateOfJoining: string
+  department: string
+  designation: string
+  manager: string
+  workLocation: string
+  contactPhone: string
+  employmentType: string
+  projectAssignment?: string
+}
+
+// Fields an onboarding request must fill in (validate_onboarding_data, bulk import)
+export const REQUIRED_EMPLOYEE_FIELDS = [
+  'name',
+  'email',
+  'dateOfJoining',
+  'department',
+  'designation',
+  'manager',
+  'workLocation',
+  'contactPhone',
+  'employmentType',
+] as const
+
+export const missingEmployeeFields = (employee: Partial<Record<keyof Employee, unknown>>) =>
+  REQUIRED_EMPLOYEE_FIELDS.filter((field) => !employee[field])
+
+export type EmploymentStatus = 'Onboarding' | 'Active' | 'Offboarding' | 'Exited'
+
+export interface SystemAccess {
+  accountId?: string
+  provisionedAt: string
+  revokedAt?: string
+}
+
+// The one employee record both flows read and write: onboarding creates it and records
+// the accounts it provisions; offboarding starts from it and revokes exactly those accounts
+export interface EmployeeRecord extends Employee {
+  employmentStatus: EmploymentStatus
+  systems: Partial<Record<SystemId, SystemAccess>>
+  createdAt: string
+  updatedAt: string
+  exitedAt?: string
+}
+
+const seededAccess = (id: string, provisionedAt: string, systems: Array<[SystemId, string]>) =>
+  Object.fromEntries(systems.map(([system, prefix]) => [system, { accountId: `${prefix}-${id}`, provisionedAt }]))
+
+export const employees = createRepository<EmployeeRecord>('employees', (e) => e.id, [
+  {
+    id: 'EMP-0001',
+    name: 'Priya Raman',
+    email: 'priya.raman@nexus.example.com',
+    dateOfJoining: '2024-01-08',
+    department: 'Engineering',
+    designation: 'Senior Engineer',
+    manager: 'Daniel Ortiz',
+    workLocation: 'Bengaluru',
+    contactPhone: '+91 80 5555 0101',
+    employmentType: 'Full-time',
+    employmentStatus: 'Active',
+    systems: seededAccess('EMP-0001', '2024-01-08T09:00:00.000Z', [['hrms', 'HRMS'], ['email', 'DIR'], ['network', 'VPN'], ['projectTools', 'PT']]),
+    createdAt: '2024-01-02T10:00:00.000Z',
+    updatedAt: '2024-01-08T09:00:00.000Z',
+  },
+  {
+    id: 'EMP-0002',
+    name: 'Tom Becker',
+    email: 'tom.becker@nexus.example.com',
+    dateOfJoining: '2024-03-01',
+    department: 'Finance',
+    designation: 'Contract Analyst',
+    manager: 'Laura Chen',
+    workLocation: 'Remote',
+    contactPhone: '+1 415 555 0199',
+    employmentType: 'Contractor',
+    employmentStatus: 'Active',
+    systems: seededAccess('EMP-0002', '2024-03-01T09:00:00.000Z', [['hrms', 'HRMS'], ['email', 'DIR']]),
+    createdAt: '2024-02-20T10:00:00.000Z',
+    updatedAt: '2024-03-01T09:00:00.000Z',
+  },
+])
+
+// --- Employee IDs ---
+
+// Last number issued per sequence (one per year, or 'all'); persisted with the other collections
+const idSequences = createRepository<{ key: string; value: number }>('employeeIdSequences', (s) => s.key)
+
+// Luhn check digit over the numeric part, so a mistyped digit (and most transpositions) is caught
+export function luhnCheckDigit(digits: string): number {
+  const sum = [...digits].reverse().reduce((total, ch, i) => {
+    let d = Number(ch)
+    if (i % 2 === 0) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    return total + d
+  }, 0)
+  return (10 - (sum % 10)) % 10
+}
+
+export function nextEmployeeId(now = new Date()): string {
+  const { prefix, sequenceDigits, perYear, checkDigit } = config.employeeIds
+  const year = String(now.getUTCFullYear())
+  const key = perYear ? year : 'all'
+  const sequence = idSequences.get(key) ?? { key, value: 0 }
+
+  let id: string
+  do {
+    sequence.value++
+    const number = String(sequence.value).padStart(sequenceDigits, '0')
+    const body = perYear ? `${year}-${number}` : number
+    id = checkDigit ? `${prefix}-${body}-${luhnCheckDigit(body.replace(/\D/g, ''))}` : `${prefix}-${body}`
+  } while (employees.has(id))
+
+  idSequences.save(sequence)
+  return id
+}
+
+// False only for an ID in the current scheme whose check digit does not match (a typo);
+// IDs issued under other schemes are not judged
+export function hasValidCheckDigit(id: string): boolean {
+  const { prefix, checkDigit } = config.employeeIds
+  if (!checkDigit || !id.startsWith(`${prefix}-`)) return true
+  const parts = id.slice(prefix.length + 1).split('-')
+  const check = parts.pop()!
+  if (parts.length === 0 || !/^\d$/.test(check) || !parts.every((p) => /^\d+$/.test(p))) return true
+  return luhnCheckDigit(parts.join('')) === Number(check)
+}
+
+// --- Duplicate detection ---
+
+export interface DuplicateMatch {
+  employee: EmployeeRecord
+  matchedOn: 'email' | 'name and date of joining'
+}
+
+// An employee already in the registry (and not exited) with the same email, or the same
+// name and joining date
+export function findDuplicateEmployee(input: { email?: string; name?: string; dateOfJoining?: string }): DuplicateMatch | undefined {
+  const norm = (value?: string) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ')
+  const current = employees.filter((e) => e.employmentStatus !== 'Exited')
+
+  const byEmail = input.email && current.find((e) => norm(e.email) === norm(input.email))
+  if (byEmail) return { employee: byEmail, matchedOn: 'email' }
+
+  const byName = input.name && input.dateOfJoining &&
+    current.find((e) => norm(e.name) === norm(input.name) && e.dateOfJoining === input.dateOfJoining?.trim())
+  if (byName) return { employee: byName, matchedOn: 'name and date of joining' }
+}
+
+// Systems with an account that has not been revoked
+export const activeSystems = (employee: EmployeeRecord) =>
+  (Object.entries(employee.systems) as Array<[SystemId, SystemAccess]>)
+    .filter(([, access]) => !access.revokedAt)
+    .map(([system]) => system)
+
+export function recordAccess(employee: EmployeeRecord, system: SystemId, accountId: string | undefined) {
+  employee.systems[system] = { accountId, provisionedAt: new Date().toISOString() }
+}
+
+export function revokeAccess(employee: EmployeeRecord, system: SystemId) {
+  const access = employee.systems[system]
+  if (access) access.revokedAt = new Date().toISOString()
+}
+
+export function setEmploymentStatus(employee: EmployeeRecord, status: EmploymentStatus) {
+  employee.employmentStatus = status
+  employee.updatedAt = new Date().toISOString()
+  if (status === 'Exited') employee.exitedAt = employee.updatedAt
+  employees.save(employee)
+}
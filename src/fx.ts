@@ -0,0 +1,56 @@
+import fs from 'fs'
+import { z } from 'zod'
+import { config } from './config.js'
+import { createRepository } from './store.js'
+
+// One dated quote: `rate` units of `currency` buy one unit of the table's base currency
+export const fxRateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD'),
+  currency: z.string().length(3).transform((c) => c.toUpperCase()),
+  rate: z.number().positive(),
+})
+
+export type FxRate = z.output<typeof fxRateSchema>
+
+export class FxRateMissingError extends Error {
+  constructor(public currency: string, public date: string) {
+    super(`No FX rate for ${currency} on or before ${date}`)
+    this.name = 'FxRateMissingError'
+  }
+}
+
+const fxFile = JSON.parse(fs.readFileSync(config.fxRatesFile, 'utf-8'))
+export const FX_BASE: string = (fxFile.base || 'USD').toUpperCase()
+
+export const fxRates = createRepository<FxRate>('fxRates', (r) => `${r.currency}|${r.date}`)
+
+// Rates are reference data, so they are loaded even when demo seeding is off
+if (fxRates.count() === 0) {
+  fxRates.seed((fxFile.rates as unknown[]).map((r) => fxRateSchema.parse(r)))
+}
+
+// Units of `currency` per base unit, using the latest quote on or before `date`
+function baseRate(currency: string, date: string): number {
+  const code = currency.toUpperCase()
+  if (code === FX_BASE) return 1
+
+  const quote = fxRates
+    .filter((r) => r.currency === code && r.date <= date)
+    .sort((a, b) => b.date.localeCompare(a.date))[0]
+  if (!quote) throw new FxRateMissingError(code, date)
+  return quote.rate
+}
+
+// Units of `to` per one unit of `from` on `date`
+export const rateBetween = (from: string, to: string, date: string) =>
+  from.toUpperCase() === to.toUpperCase() ? 1 : baseRate(to, date) / baseRate(from, date)
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export const convert = (amount: number, from: string, to: string, date: string) =>
+  round2(amount * rateBetween(from, to, date))
+
+// Gain (positive) or loss on `amount` of foreign currency received at `currentRate`
+// versus the rate it was booked at; both rates are reporting units per foreign unit
+export const fxDifference = (amount: number, bookedRate: number, currentRate: number) =>
+  round2(amount * (currentRate - bookedRate))
@@ -1,20 +1,93 @@
 import express from 'express'
+import { z } from 'zod'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { createMCPRouter } from './mcp-http.js'
+import { createServer as createMcpServer, importOnboarding, slaMonitor } from './mcp-server.js'
+import { describeRoute, promptCatalog, routeCatalog, toolCatalog, type Catalog } from './catalog.js'
+import { ImportError } from './onboarding-import.js'
+import { DunningRunInProgressError } from './dunning.js'
+import { FINANCE, PO_APPROVERS, PO_VIEWERS, TEAM_LEADS, actorOf, authenticate, authorize, promptRoles, toolRoles } from './auth.js'
+import { FxRateMissingError, fxDifference, fxRateSchema, fxRates, rateBetween } from './fx.js'
+import { agingToCsv, computeArAging, convertAging, parseBucketBoundaries, writeAgingXlsx } from './ar-aging.js'
+import { config } from './config.js'
+import { isDate } from './dates.js'
+import { buildStatement, customerSchema, customers, formatAddress, nextCustomerId } from './customers.js'
+import { INVOICE_STATUSES, type InvoiceStatus } from './invoice-lifecycle.js'
+import { renderInvoicePdf, type InvoicePdfData } from './invoice-pdf.js'
+import { approvalRuleSchema, approvalRules, nextRuleId } from './approval-matrix.js'
+import { approvalChain, approvePurchaseOrder, pendingPurchaseOrders, PurchaseOrderError, reassignPurchaseOrder, rejectPurchaseOrder } from './purchase-orders.js'
+import { assignTask, assignTeamRole, createTask, replaceTeamMember, TaskError, teamMembers, updateTask } from './team.js'
+import {
+  PAYMENT_METHODS,
+  ReceivablesError,
+  cancelInvoice,
+  collectionStatus,
+  createInvoice,
+  creditNotes,
+  creditWarningFor,
+  dunning,
+  invoiceDetails,
+  invoiceInput,
+  invoices,
+  isoDate,
+  issueCreditNote,
+  logCollectionAction,
+  recordPayment,
+  requestReminder,
+  roundCents,
+  sendInvoice,
+  updateDraftInvoice,
+  type Invoice,
+} from './receivables.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
 const app = express()
 
-app.use(express.json())
+app.use(express.json({ limit: config.jsonBodyLimit }))
+
+// Resolve the bearer token (when auth is enabled) before any protected route or /mcp
+app.use(authenticate)
 
 // Mount MCP Streamable HTTP server at /mcp
 app.use('/mcp', createMCPRouter())
 
+// Sessions on /mcp get their own server; this one is never connected, only read for the catalog
+const mcpServer = createMcpServer()
+
+// Everything this server serves, read from the registered routes, MCP tools and prompts so
+// the home page and /catalog cannot drift from what is actually mounted
+const buildCatalog = (): Catalog => ({
+  routes: routeCatalog(app),
+  mcp: {
+    endpoint: '/mcp',
+    transport: 'streamable-http',
+    tools: toolCatalog(mcpServer, (tool) => toolRoles[tool]),
+    prompts: promptCatalog(mcpServer, (prompt) => promptRoles[prompt]),
+  },
+})
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!)
+
 // Home route - HTML
-app.get('/', (req, res) => {
+app.get('/', describeRoute('This page: the route, MCP tool and prompt catalog'), (req, res) => {
+  const catalog = buildCatalog()
+  const routeRows = catalog.routes
+    .map((r) => `<tr><td>${r.method}</td><td>${escapeHtml(r.path)}</td><td>${escapeHtml(r.description)}</td><td>${escapeHtml(r.roles?.join(', ') ?? 'Public')}</td></tr>`)
+    .join('\n')
+  const toolRows = catalog.mcp.tools
+    .map((t) => `<tr><td>${escapeHtml(t.name)}</td><td>${escapeHtml(t.description)}</td><td>${escapeHtml(t.roles.join(', '))}</td></tr>`)
+    .join('\n')
+  const promptRows = catalog.mcp.prompts
+    .map((p) => {
+      const args = p.arguments.map((a) => (a.required ? a.name : `${a.name}?`)).join(', ')
+      return `<tr><td>${escapeHtml(p.name)}</td><td>${escapeHtml(args)}</td><td>${escapeHtml(p.description)}</td><td>${escapeHtml(p.roles.join(', '))}</td></tr>`
+    })
+    .join('\n')
+
   res.type('html').send(`
     <!doctype html>
     <html>
@@ -38,6 +111,7 @@ app.get('/', (req, res) => {
           <a href="/">Home</a>
           <a href="/about">About</a>
           <a href="/healthz">Health</a>
+          <a href="/catalog">Catalog (JSON)</a>
         </nav>
         <h1>Welcome to Nexus APIs 🚀</h1>
         
@@ -48,23 +122,41 @@ app.get('/', (req, res) => {
               <th>Method</th>
               <th>Endpoint</th>
               <th>Description</th>
+              <th>Roles</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${routeRows}
+          </tbody>
+        </table>
+
+        <h2>MCP Tools</h2>
+        <p>Streamable HTTP endpoint: <code>${catalog.mcp.endpoint}</code>. Input schemas are listed at <a href="/catalog">/catalog</a>.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Tool</th>
+              <th>Description</th>
+              <th>Roles</th>
             </tr>
           </thead>
           <tbody>
-            <tr><td>POST</td><td>/requisitionApproval</td><td>Submit a requisition for approval</td></tr>
-            <tr><td>GET</td><td>/healthz</td><td>Service health check</td></tr>
-            <tr><td>GET</td><td>/po/notifications</td><td>Retrieve pending PO approvals</td></tr>
-            <tr><td>POST</td><td>/po/approve</td><td>Approve a Purchase Order</td></tr>
-            <tr><td>POST</td><td>/po/reject</td><td>Reject a Purchase Order</td></tr>
-            <tr><td>POST</td><td>/po/reassign</td><td>Reassign a PO approval</td></tr>
-            <tr><td>GET</td><td>/po/approval-matrix</td><td>Fetch approval hierarchy</td></tr>
-            <tr><td>POST</td><td>/team/createTask</td><td>Create a new task</td></tr>
-            <tr><td>POST</td><td>/team/assignTask</td><td>Assign a task to team members</td></tr>
-            <tr><td>PUT</td><td>/team/editTask</td><td>Update task details</td></tr>
-            <tr><td>GET</td><td>/team/getTeamMembers</td><td>List all team members</td></tr>
-            <tr><td>POST</td><td>/team/replaceTeamMember</td><td>Replace a team member on a task</td></tr>
-            <tr><td>POST</td><td>/team/assignRole</td><td>Assign a role to a team member</td></tr>
-            <tr><td>POST</td><td>/team/triggerNotification</td><td>Trigger a team notification</td></tr>
+            ${toolRows}
+          </tbody>
+        </table>
+
+        <h2>MCP Prompts</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Prompt</th>
+              <th>Arguments</th>
+              <th>Description</th>
+              <th>Roles</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${promptRows}
           </tbody>
         </table>
       </body>
@@ -72,13 +164,19 @@ app.get('/', (req, res) => {
   `)
 })
 
-app.get('/about', function (req, res) {
+// Route, MCP tool and prompt catalog with input schemas (JSON Schema)
+app.get('/catalog', describeRoute('Route, MCP tool and prompt catalog as JSON'), (req, res) => {
+  res.json(buildCatalog())
+})
+
+app.get('/about', describeRoute('About Nexus APIs'), function (req, res) {
   res.sendFile(path.join(__dirname, '..', 'components', 'about.htm'))
 })
 
 // Requisition Approval API
-app.post('/requisitionApproval', (req, res) => {
-  const { requisitionId, approverId, decision, comments } = req.body
+app.post('/requisitionApproval', describeRoute('Approve or reject a requisition', { body: z.object({ requisitionId: z.string(), decision: z.enum(['approve', 'reject']), comments: z.string().optional(), approverId: z.string().optional() }) }), authorize(...PO_APPROVERS, 'Manager'), (req, res) => {
+  const { requisitionId, decision, comments } = req.body
+  const approverId = req.user?.id ?? req.body.approverId
 
   if (!requisitionId || !approverId || !decision) {
     return res.status(400).json({
@@ -125,72 +223,26 @@ app.post('/requisitionApproval', (req, res) => {
 })
 
 // Health check
-app.get('/healthz', (req, res) => {
+app.get('/healthz', describeRoute('Service health check'), (req, res) => {
   res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
 // --- Purchase Order Approval Workflow ---
 
-// Mock Data for Purchase Orders
-interface PurchaseOrder {
-  id: string
-  amount: number
-  region: string
-  requester: string
-  status: 'Pending' | 'Approved' | 'Rejected'
-  currentApprover: string
-  details: string
-  history: Array<{ action: string; actor: string; date: string; comments?: string }>
-}
-
-const purchaseOrders: PurchaseOrder[] = [
-  {
-    id: 'PO-1001',
-    amount: 5000,
-    region: 'US',
-    requester: 'Alice Smith',
-    status: 'Pending',
-    currentApprover: 'CPM',
-    details: 'Office Supplies for Q4',
-    history: [],
-  },
-  {
-    id: 'PO-1002',
-    amount: 15000,
-    region: 'EMEA',
-    requester: 'Bob Jones',
-    status: 'Pending',
-    currentApprover: 'CPH',
-    details: 'New Server Hardware',
-    history: [],
-  },
-  {
-    id: 'PO-1003',
-    amount: 75000,
-    region: 'APAC',
-    requester: 'Charlie Kim',
-    status: 'Pending',
-    currentApprover: 'Geo Controller',
-    details: 'Consulting Services Contract',
-    history: [],
-  },
-]
-
-// Helper to determine approval matrix
-const getApprovalMatrix = (region: string, amount: number): string[] => {
-  // Base hierarchy: CPM -> CPH -> Geo Controller -> Corporate Controller
-  const fullHierarchy = ['CPM', 'CPH', 'Geo Controller', 'Corporate Controller']
-  
-  // Logic: Higher amounts require more levels
-  if (amount < 10000) return ['CPM']
-  if (amount < 50000) return ['CPM', 'CPH']
-  if (amount < 100000) return ['CPM', 'CPH', 'Geo Controller']
-  return fullHierarchy
+// Helper to answer with the status a PO, task or invoice operation failed with. Async
+// handlers pass `next`: Express 4 does not catch a rejected handler, so anything else goes
+// to the error handler (500) instead of becoming an unhandled rejection.
+const sendServiceError = (res: express.Response, error: unknown, next?: express.NextFunction) => {
+  if (error instanceof PurchaseOrderError || error instanceof TaskError || error instanceof ReceivablesError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  if (next) return next(error)
+  throw error
 }
 
 // 1. GET /po/notifications: Retrieve pending PO approvals
-app.get('/po/notifications', (req, res) => {
-  const pendingPOs = purchaseOrders.filter((po) => po.status === 'Pending')
+app.get('/po/notifications', describeRoute('Pending PO approvals'), authorize(...PO_VIEWERS), (req, res) => {
+  const pendingPOs = pendingPurchaseOrders()
   res.json({
     count: pendingPOs.length,
     notifications: pendingPOs.map((po) => ({
@@ -204,270 +256,208 @@ app.get('/po/notifications', (req, res) => {
 })
 
 // 2. POST /po/approve: Approve PO
-app.post('/po/approve', (req, res) => {
-  const { poId, approverId, comments } = req.body
-
-  const po = purchaseOrders.find((p) => p.id === poId)
-  if (!po) {
-    return res.status(404).json({ error: 'Purchase Order not found' })
-  }
+app.post('/po/approve', describeRoute('Approve a purchase order at its current approval level', { body: z.object({ poId: z.string(), comments: z.string().optional(), approverId: z.string().optional() }) }), authorize(...PO_APPROVERS), (req, res) => {
+  const { poId, comments } = req.body
 
-  if (po.status !== 'Pending') {
-    return res.status(400).json({ error: `PO is already ${po.status}` })
+  try {
+    const { po, message, nextApprover, evaluation } = approvePurchaseOrder(poId, { name: actorOf(req, req.body.approverId), identity: req.user }, comments)
+    res.json({
+      message,
+      poId: po.id,
+      status: po.status,
+      nextApprover,
+      approvalMatrix: evaluation.approvers,
+      matchedRule: evaluation.rule.id,
+      explanation: evaluation.explanation,
+    })
+  } catch (error) {
+    sendServiceError(res, error)
   }
+})
 
-  // Check matrix to see if there is a next approver
-  const matrix = getApprovalMatrix(po.region, po.amount)
-  const currentLevelIndex = matrix.indexOf(po.currentApprover)
-  
-  let message = 'PO Approved'
-  let nextApprover = null
+// 3. POST /po/reject: Reject PO
+app.post('/po/reject', describeRoute('Reject a purchase order', { body: z.object({ poId: z.string(), comments: z.string().optional(), approverId: z.string().optional() }) }), authorize(...PO_APPROVERS), (req, res) => {
+  const { poId, comments } = req.body
 
-  if (currentLevelIndex !== -1 && currentLevelIndex < matrix.length - 1) {
-    // Move to next approver
-    nextApprover = matrix[currentLevelIndex + 1]
-    po.currentApprover = nextApprover
-    message = `Approved by ${approverId}. Forwarded to ${nextApprover}.`
-  } else {
-    // Final approval
-    po.status = 'Approved'
-    po.currentApprover = 'None'
-    message = `PO ${po.id} fully approved.`
+  try {
+    const po = rejectPurchaseOrder(poId, { name: actorOf(req, req.body.approverId), identity: req.user }, comments)
+    res.json({
+      message: `PO ${po.id} has been rejected.`,
+      poId: po.id,
+      status: 'Rejected',
+    })
+  } catch (error) {
+    sendServiceError(res, error)
   }
-
-  po.history.push({
-    action: 'Approve',
-    actor: approverId,
-    date: new Date().toISOString(),
-    comments,
-  })
-
-  res.json({
-    message,
-    poId: po.id,
-    status: po.status,
-    nextApprover,
-  })
 })
 
-// 3. POST /po/reject: Reject PO
-app.post('/po/reject', (req, res) => {
-  const { poId, approverId, comments } = req.body
+// 4. POST /po/reassign: Reassign approval
+app.post('/po/reassign', describeRoute('Reassign a PO approval to another approver', { body: z.object({ poId: z.string(), newApproverId: z.string(), currentApproverId: z.string().optional() }) }), authorize(...PO_APPROVERS), (req, res) => {
+  const { poId, newApproverId, currentApproverId } = req.body
 
-  if (!comments) {
-    return res.status(400).json({ error: 'Comments are required for rejection' })
+  try {
+    const { po, previousApprover } = reassignPurchaseOrder(poId, newApproverId, { name: actorOf(req, currentApproverId || 'System'), identity: req.user })
+    res.json({
+      message: `PO ${po.id} reassigned to ${newApproverId}`,
+      poId: po.id,
+      previousApprover,
+      currentApprover: newApproverId,
+    })
+  } catch (error) {
+    sendServiceError(res, error)
   }
+})
 
-  const po = purchaseOrders.find((p) => p.id === poId)
-  if (!po) {
-    return res.status(404).json({ error: 'Purchase Order not found' })
+// 5. GET /po/approval-matrix: Fetch approval hierarchy for a PO
+app.get('/po/approval-matrix', describeRoute('Approval chain for a PO, or for a region, amount, currency and category', { query: z.object({ poId: z.string().optional(), region: z.string().optional(), amount: z.number().optional(), currency: z.string().optional(), category: z.string().optional() }) }), authorize(...PO_VIEWERS), (req, res) => {
+  const { poId, region, amount, currency, category } = req.query
+
+  try {
+    const chain = approvalChain({
+      poId: poId as string | undefined,
+      region: region as string | undefined,
+      amount: amount === undefined ? undefined : Number(amount),
+      currency: currency as string | undefined,
+      category: category as string | undefined,
+    })
+    res.json({
+      region: chain.region,
+      amount: chain.amount,
+      currency: chain.currency,
+      category: chain.category || null,
+      approvalMatrix: chain.evaluation.approvers,
+      matchedRule: chain.evaluation.rule,
+      explanation: chain.evaluation.explanation,
+      shadowedRules: chain.evaluation.shadowedRules,
+    })
+  } catch (error) {
+    sendServiceError(res, error)
   }
+})
 
-  po.status = 'Rejected'
-  po.currentApprover = 'None'
-  po.history.push({
-    action: 'Reject',
-    actor: approverId,
-    date: new Date().toISOString(),
-    comments,
-  })
+// 6. Approval matrix rule CRUD
+app.get('/po/approval-matrix/rules', describeRoute('List approval matrix rules', { query: z.object({ region: z.string().optional(), currency: z.string().optional(), category: z.string().optional() }) }), authorize(...PO_VIEWERS), (req, res) => {
+  const { region, currency, category } = req.query
 
-  res.json({
-    message: `PO ${po.id} has been rejected.`,
-    poId: po.id,
-    status: 'Rejected',
-  })
+  let rules = approvalRules.all()
+  if (region) rules = rules.filter((r) => r.region.toLowerCase() === (region as string).toLowerCase())
+  if (currency) rules = rules.filter((r) => r.currency.toLowerCase() === (currency as string).toLowerCase())
+  if (category) rules = rules.filter((r) => r.category.toLowerCase() === (category as string).toLowerCase())
+
+  res.json({ count: rules.length, rules })
 })
 
-// 4. POST /po/reassign: Reassign approval
-app.post('/po/reassign', (req, res) => {
-  const { poId, newApproverId, currentApproverId } = req.body
+app.get('/po/approval-matrix/rules/:id', describeRoute('Read an approval matrix rule'), authorize(...PO_VIEWERS), (req, res) => {
+  const rule = approvalRules.get(req.params.id)
+  if (!rule) return res.status(404).json({ error: 'Approval rule not found' })
+  res.json(rule)
+})
 
-  const po = purchaseOrders.find((p) => p.id === poId)
-  if (!po) {
-    return res.status(404).json({ error: 'Purchase Order not found' })
+app.post('/po/approval-matrix/rules', describeRoute('Create an approval matrix rule', { body: approvalRuleSchema }), authorize('Finance', 'Corporate Controller'), (req, res) => {
+  const parsed = approvalRuleSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid approval rule', details: parsed.error.issues })
   }
 
-  const oldApprover = po.currentApprover
-  po.currentApprover = newApproverId
-  
-  po.history.push({
-    action: 'Reassign',
-    actor: currentApproverId || 'System',
-    date: new Date().toISOString(),
-    comments: `Reassigned from ${oldApprover} to ${newApproverId}`,
-  })
+  const id = parsed.data.id || nextRuleId()
+  if (approvalRules.has(id)) {
+    return res.status(409).json({ error: `Approval rule ${id} already exists` })
+  }
 
-  res.json({
-    message: `PO ${po.id} reassigned to ${newApproverId}`,
-    poId: po.id,
-    previousApprover: oldApprover,
-    currentApprover: newApproverId,
-  })
+  const rule = approvalRules.save({ ...parsed.data, id })
+  res.status(201).json({ message: 'Approval rule created', rule })
 })
 
-// 5. GET /po/approval-matrix: Fetch approval hierarchy for a PO
-app.get('/po/approval-matrix', (req, res) => {
-  const { poId, region, amount } = req.query
-
-  let targetRegion = region as string
-  let targetAmount = Number(amount)
-
-  // If poId is provided, look it up
-  if (poId) {
-    const po = purchaseOrders.find((p) => p.id === poId)
-    if (po) {
-      targetRegion = po.region
-      targetAmount = po.amount
-    } else {
-      return res.status(404).json({ error: 'Purchase Order not found' })
-    }
-  }
+app.put('/po/approval-matrix/rules/:id', describeRoute('Update an approval matrix rule', { body: approvalRuleSchema }), authorize('Finance', 'Corporate Controller'), (req, res) => {
+  const existing = approvalRules.get(req.params.id)
+  if (!existing) return res.status(404).json({ error: 'Approval rule not found' })
 
-  if (!targetRegion || isNaN(targetAmount)) {
-    return res.status(400).json({ error: 'Please provide poId OR (region and amount)' })
+  const parsed = approvalRuleSchema.safeParse({ ...existing, ...req.body, id: existing.id })
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid approval rule', details: parsed.error.issues })
   }
 
-  const matrix = getApprovalMatrix(targetRegion, targetAmount)
+  const rule = approvalRules.save({ ...parsed.data, id: existing.id })
+  res.json({ message: 'Approval rule updated', rule })
+})
 
-  res.json({
-    region: targetRegion,
-    amount: targetAmount,
-    approvalMatrix: matrix,
-  })
+app.delete('/po/approval-matrix/rules/:id', describeRoute('Delete an approval matrix rule'), authorize('Finance', 'Corporate Controller'), (req, res) => {
+  if (!approvalRules.delete(req.params.id)) {
+    return res.status(404).json({ error: 'Approval rule not found' })
+  }
+  res.json({ message: `Approval rule ${req.params.id} deleted` })
 })
 
 // --- Task and Team Member Management ---
 
-interface TeamMember {
-  id: string
-  name: string
-  role: string
-  workItemTypes: string[]
-}
-
-interface Task {
-  id: string
-  name: string
-  description: string
-  projectCode: string
-  status: 'Not Started' | 'In Progress' | 'Completed'
-  assignedTo: string[] // TeamMember IDs
-  startDate: string
-  endDate: string
-}
-
-const teamMembers: TeamMember[] = [
-  { id: 'TM-001', name: 'John Doe', role: 'Developer', workItemTypes: ['Backend', 'API'] },
-  { id: 'TM-002', name: 'Jane Smith', role: 'Tester', workItemTypes: ['QA', 'Automation'] },
-  { id: 'TM-003', name: 'Mike Johnson', role: 'Project Manager', workItemTypes: ['Management'] },
-]
-
-const tasks: Task[] = [
-  {
-    id: 'TASK-1001',
-    name: 'Initial Setup',
-    description: 'Project initialization',
-    projectCode: 'PROJ-A',
-    status: 'Not Started',
-    assignedTo: [],
-    startDate: new Date().toISOString(),
-    endDate: new Date(Date.now() + 86400000).toISOString(),
-  }
-]
-
 // 1. POST /team/createTask
-app.post('/team/createTask', (req, res) => {
-  const { name, description, projectCode, startDate, endDate } = req.body
-  
-  if (!name || !projectCode) {
-    return res.status(400).json({ error: 'Name and Project Code are required' })
+app.post('/team/createTask', describeRoute('Create a task', { body: z.object({ name: z.string(), description: z.string().optional(), projectCode: z.string(), startDate: z.string().optional(), endDate: z.string().optional() }) }), authorize(...TEAM_LEADS), (req, res) => {
+  try {
+    const task = createTask(req.body)
+    res.json({ message: 'Task created successfully', task })
+  } catch (error) {
+    sendServiceError(res, error)
   }
-
-  const newTask: Task = {
-    id: `TASK-${1000 + tasks.length + 1}`,
-    name,
-    description: description || '',
-    projectCode,
-    status: 'Not Started',
-    assignedTo: [],
-    startDate: startDate || new Date().toISOString(),
-    endDate: endDate || new Date(Date.now() + 7 * 86400000).toISOString(),
-  }
-
-  tasks.push(newTask)
-  res.json({ message: 'Task created successfully', task: newTask })
 })
 
 // 2. POST /team/assignTask
-app.post('/team/assignTask', (req, res) => {
+app.post('/team/assignTask', describeRoute('Assign a task to team members', { body: z.object({ taskId: z.string(), teamMemberIds: z.array(z.string()) }) }), authorize(...TEAM_LEADS), (req, res) => {
   const { taskId, teamMemberIds } = req.body
 
-  const task = tasks.find(t => t.id === taskId)
-  if (!task) return res.status(404).json({ error: 'Task not found' })
-
-  // Validate team members
-  const validMembers = teamMembers.filter(tm => teamMemberIds.includes(tm.id))
-  if (validMembers.length !== teamMemberIds.length) {
-    return res.status(400).json({ error: 'One or more team members not found' })
+  try {
+    const task = assignTask(taskId, teamMemberIds)
+    res.json({ message: 'Task assigned successfully', task })
+  } catch (error) {
+    sendServiceError(res, error)
   }
-
-  task.assignedTo = [...new Set([...task.assignedTo, ...teamMemberIds])]
-  res.json({ message: 'Task assigned successfully', task })
 })
 
 // 3. PUT /team/editTask
-app.put('/team/editTask', (req, res) => {
+app.put('/team/editTask', describeRoute('Update task details', { body: z.object({ taskId: z.string(), updates: z.record(z.unknown()) }) }), authorize(...TEAM_LEADS), (req, res) => {
   const { taskId, updates } = req.body
-  
-  const taskIndex = tasks.findIndex(t => t.id === taskId)
-  if (taskIndex === -1) return res.status(404).json({ error: 'Task not found' })
 
-  tasks[taskIndex] = { ...tasks[taskIndex], ...updates }
-  res.json({ message: 'Task updated successfully', task: tasks[taskIndex] })
+  try {
+    const task = updateTask(taskId, updates)
+    res.json({ message: 'Task updated successfully', task })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
 })
 
 // 4. GET /team/getTeamMembers
-app.get('/team/getTeamMembers', (req, res) => {
-  res.json({ count: teamMembers.length, teamMembers })
+app.get('/team/getTeamMembers', describeRoute('List team members'), authorize(...TEAM_LEADS, 'HR', 'IT'), (req, res) => {
+  res.json({ count: teamMembers.count(), teamMembers: teamMembers.all() })
 })
 
 // 5. POST /team/replaceTeamMember
-app.post('/team/replaceTeamMember', (req, res) => {
+app.post('/team/replaceTeamMember', describeRoute('Replace a team member on a task', { body: z.object({ taskId: z.string(), oldMemberId: z.string(), newMemberId: z.string() }) }), authorize(...TEAM_LEADS), (req, res) => {
   const { taskId, oldMemberId, newMemberId } = req.body
 
-  const task = tasks.find(t => t.id === taskId)
-  if (!task) return res.status(404).json({ error: 'Task not found' })
-
-  if (!task.assignedTo.includes(oldMemberId)) {
-    return res.status(400).json({ error: 'Old member is not assigned to this task' })
+  try {
+    const task = replaceTeamMember(taskId, oldMemberId, newMemberId)
+    res.json({ 
+      message: `Replaced ${oldMemberId} with ${newMemberId} on task ${taskId}`,
+      task 
+    })
+  } catch (error) {
+    sendServiceError(res, error)
   }
-
-  const newMember = teamMembers.find(tm => tm.id === newMemberId)
-  if (!newMember) return res.status(404).json({ error: 'New team member not found' })
-
-  // Replace
-  task.assignedTo = task.assignedTo.map(id => id === oldMemberId ? newMemberId : id)
-  
-  res.json({ 
-    message: `Replaced ${oldMemberId} with ${newMemberId} on task ${taskId}`,
-    task 
-  })
 })
 
 // 6. POST /team/assignRole
-app.post('/team/assignRole', (req, res) => {
+app.post('/team/assignRole', describeRoute('Assign a role to a team member', { body: z.object({ teamMemberId: z.string(), newRole: z.string() }) }), authorize(...TEAM_LEADS, 'HR'), (req, res) => {
   const { teamMemberId, newRole } = req.body
-  
-  const member = teamMembers.find(tm => tm.id === teamMemberId)
-  if (!member) return res.status(404).json({ error: 'Team member not found' })
 
-  member.role = newRole
-  res.json({ message: 'Role updated', teamMember: member })
+  try {
+    const member = assignTeamRole(teamMemberId, newRole)
+    res.json({ message: 'Role updated', teamMember: member })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
 })
 
 // 7. POST /team/triggerNotification
-app.post('/team/triggerNotification', (req, res) => {
+app.post('/team/triggerNotification', describeRoute('Send a team notification', { body: z.object({ type: z.string(), recipientId: z.string(), message: z.string() }) }), authorize(...TEAM_LEADS, 'HR', 'IT'), (req, res) => {
   const { type, recipientId, message } = req.body
   // Mock notification logic
   console.log(`[Notification] Type: ${type}, To: ${recipientId}, Msg: ${message}`)
@@ -476,112 +466,121 @@ app.post('/team/triggerNotification', (req, res) => {
 
 // --- Accounts Receivable Automation ---
 
-interface InvoiceItem {
-  description: string
-  quantity: number
-  unit_price: number
-  tax_code: string
-}
-
-interface Invoice {
-  id: string
-  customer_id: string
-  invoice_date: string
-  due_date: string
-  line_items: InvoiceItem[]
-  currency: string
-  payment_terms: string
-  status: 'Draft' | 'Sent' | 'Paid' | 'Overdue' | 'Cancelled'
-  balance: number
-}
+// 1. POST /acc/invoices: Create Invoice (status 'Draft' keeps it editable until it is sent)
+app.post('/acc/invoices', describeRoute('Create an invoice, as a draft or sent', { body: invoiceInput.extend({ status: z.enum(['Draft', 'Sent']).optional() }) }), authorize(...FINANCE), (req, res) => {
+  const status = req.body.status || 'Sent'
+
+  try {
+    const newInvoice = createInvoice(req.body, status)
+    res.json({
+      invoice_id: newInvoice.id,
+      status: status === 'Draft' ? 'draft' : 'created',
+      message: status === 'Draft' ? 'Draft invoice saved' : 'Invoice created successfully',
+      subtotal: newInvoice.subtotal,
+      tax_total: newInvoice.tax_total,
+      total_amount: newInvoice.total_amount,
+      credit_warning: creditWarningFor(newInvoice),
+      download_url: `/acc/invoices/${newInvoice.id}/view`,
+      pdf_url: `/acc/invoices/${newInvoice.id}/pdf`
+    })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
 
-interface CollectionNote {
-  date: string
-  user: string
-  action: string
-  comment: string
-}
+// 1.0.1 GET /acc/invoices: List invoices with filters and pagination
+app.get('/acc/invoices', describeRoute('List invoices with filters and pagination', { query: z.object({ status: z.enum(INVOICE_STATUSES).optional(), customer_id: z.string().optional(), currency: z.string().optional(), from_date: isoDate.optional(), to_date: isoDate.optional(), page: z.number().int().optional(), page_size: z.number().int().max(100).optional() }) }), authorize(...FINANCE), (req, res) => {
+  const { status, customer_id, currency, from_date, to_date } = req.query
+  const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+  const pageSize = Math.min(Math.max(parseInt(req.query.page_size as string) || 20, 1), 100)
 
-interface CollectionStatus {
-  invoice_id: string
-  status: 'Open' | 'In Progress' | 'Closed'
-  last_action: string
-  next_action_due: string
-  notes: CollectionNote[]
-}
+  if (status && !INVOICE_STATUSES.includes(status as InvoiceStatus)) {
+    return res.status(400).json({ error: `status must be one of: ${INVOICE_STATUSES.join(', ')}` })
+  }
 
-const invoices: Invoice[] = [
-  {
-    id: 'INV-2001',
-    customer_id: 'CUST-001',
-    invoice_date: '2023-10-01',
-    due_date: '2023-10-31',
-    line_items: [{ description: 'Consulting Services', quantity: 10, unit_price: 150, tax_code: 'VAT' }],
-    currency: 'USD',
-    payment_terms: 'Net 30',
-    status: 'Overdue',
-    balance: 1500
-  }
-]
-
-const collections: CollectionStatus[] = [
-  {
-    invoice_id: 'INV-2001',
-    status: 'In Progress',
-    last_action: 'Email Reminder',
-    next_action_due: '2023-11-15',
-    notes: [
-      { date: '2023-11-01', user: 'System', action: 'Email', comment: 'First reminder sent' }
-    ]
-  }
-]
-
-// 1. POST /acc/invoices: Create Invoice
-app.post('/acc/invoices', (req, res) => {
-  const { customer_id, invoice_date, due_date, line_items, currency, payment_terms } = req.body
-
-  if (!customer_id || !line_items || line_items.length === 0) {
-    return res.status(400).json({ error: 'Missing required invoice fields' })
-  }
-
-  const totalAmount = line_items.reduce((sum: number, item: InvoiceItem) => sum + (item.quantity * item.unit_price), 0)
-  
-  const newInvoice: Invoice = {
-    id: `INV-${2000 + invoices.length + 1}`,
-    customer_id,
-    invoice_date,
-    due_date,
-    line_items,
-    currency: currency || 'USD',
-    payment_terms: payment_terms || 'Net 30',
-    status: 'Sent',
-    balance: totalAmount
-  }
-
-  invoices.push(newInvoice)
-  
-  // Initialize collection record
-  collections.push({
-    invoice_id: newInvoice.id,
-    status: 'Open',
-    last_action: 'Created',
-    next_action_due: due_date,
-    notes: []
-  })
+  let list = invoices.all()
+  if (status) list = list.filter(inv => inv.status === status)
+  if (customer_id) list = list.filter(inv => inv.customer_id === customer_id)
+  if (currency) list = list.filter(inv => inv.currency === (currency as string).toUpperCase())
+  if (from_date) list = list.filter(inv => inv.invoice_date >= (from_date as string))
+  if (to_date) list = list.filter(inv => inv.invoice_date <= (to_date as string))
+  list.sort((a, b) => b.invoice_date.localeCompare(a.invoice_date) || b.id.localeCompare(a.id))
 
   res.json({
-    invoice_id: newInvoice.id,
-    status: 'created',
-    message: 'Invoice created successfully',
-    download_url: `/acc/invoices/${newInvoice.id}/view`
+    page,
+    page_size: pageSize,
+    total: list.length,
+    total_pages: Math.ceil(list.length / pageSize),
+    invoices: list.slice((page - 1) * pageSize, page * pageSize).map(inv => ({
+      invoice_id: inv.id,
+      customer_id: inv.customer_id,
+      invoice_date: inv.invoice_date,
+      due_date: inv.due_date,
+      currency: inv.currency,
+      status: inv.status,
+      total_amount: inv.total_amount,
+      credited_amount: inv.credited_amount,
+      balance: inv.balance
+    }))
   })
 })
 
+// 1.0.2 GET /acc/invoices/:id: Full invoice with its credit notes and allowed next statuses
+app.get('/acc/invoices/:id', describeRoute('Read an invoice with its credit notes and allowed next statuses'), authorize(...FINANCE), (req, res) => {
+  try {
+    res.json(invoiceDetails(req.params.id))
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
+
+// 1.0.3 PATCH /acc/invoices/:id: Edit a draft; issued invoices are corrected with credit notes
+app.patch('/acc/invoices/:id', describeRoute('Edit a draft invoice', { body: invoiceInput.partial() }), authorize(...FINANCE), (req, res) => {
+  try {
+    const invoice = updateDraftInvoice(req.params.id, req.body)
+    res.json({ status: 'updated', message: `Draft ${invoice.id} updated`, invoice })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
+
+// 1.0.4 POST /acc/invoices/:id/send: Issue a draft and email it to the customer's billing contact
+app.post('/acc/invoices/:id/send', describeRoute('Issue a draft and email it to the billing contact'), authorize(...FINANCE), async (req, res, next) => {
+  try {
+    const { invoice, notificationId } = await sendInvoice(req.params.id)
+    res.json({
+      invoice_id: invoice.id,
+      status: invoice.status,
+      notification_id: notificationId,
+      credit_warning: creditWarningFor(invoice),
+      message: `Invoice ${invoice.id} sent`
+    })
+  } catch (error) {
+    sendServiceError(res, error, next)
+  }
+})
+
+// 1.0.5 POST /acc/invoices/:id/cancel: Void an invoice that has no payments against it
+app.post('/acc/invoices/:id/cancel', describeRoute('Cancel an invoice that has no payments', { body: z.object({ reason: z.string() }) }), authorize(...FINANCE), (req, res) => {
+  try {
+    const { invoice, previousStatus } = cancelInvoice(req.params.id, req.body.reason, actorOf(req, 'Agent'))
+    res.json({
+      invoice_id: invoice.id,
+      status: invoice.status,
+      previous_status: previousStatus,
+      message: `Invoice ${invoice.id} cancelled`
+    })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
+
 // 1.1 GET /acc/invoices/:id/view: Render Invoice HTML
-app.get('/acc/invoices/:id/view', (req, res) => {
+app.get('/acc/invoices/:id/view', describeRoute('Invoice as HTML'), authorize(...FINANCE), (req, res) => {
   const { id } = req.params
-  const invoice = invoices.find(i => i.id === id)
+  const invoice = invoices.get(id)
   if (!invoice) return res.status(404).send('Invoice not found')
+  const customer = customers.get(invoice.customer_id)
 
   const html = `
     <!DOCTYPE html>
@@ -603,6 +602,8 @@ app.get('/acc/invoices/:id/view', (req, res) => {
           .status.Overdue { background: #ffebee; color: #c62828; }
           .status.Sent { background: #e3f2fd; color: #1565c0; }
           .status.Paid { background: #e8f5e9; color: #2e7d32; }
+          .status.Draft { background: #f5f5f5; color: #616161; }
+          .status.Cancelled { background: #fafafa; color: #9e9e9e; text-decoration: line-through; }
           .print-btn { display: block; width: 100%; padding: 10px; background: #333; color: #fff; text-align: center; text-decoration: none; margin-top: 20px; border-radius: 5px; }
           @media print { .print-btn { display: none; } .invoice-box { border: none; box-shadow: none; } }
         </style>
@@ -619,11 +620,11 @@ app.get('/acc/invoices/:id/view', (req, res) => {
               </div>
             </div>
             <div style="text-align: right;">
-              <h3>Nexus Corp</h3>
+              <h3>${config.company.name}</h3>
               <div class="info">
                 <strong>Bill To:</strong><br>
-                Customer ID: ${invoice.customer_id}<br>
-                Terms: ${invoice.payment_terms}
+                ${customer ? [customer.name, ...formatAddress(customer)].map(escapeHtml).join('<br>') : `Customer ID: ${escapeHtml(invoice.customer_id)}`}<br>
+                Terms: ${escapeHtml(invoice.payment_terms)}
               </div>
               <span class="status ${invoice.status}">${invoice.status}</span>
             </div>
@@ -634,25 +635,66 @@ app.get('/acc/invoices/:id/view', (req, res) => {
               <td>Description</td>
               <td>Qty</td>
               <td>Unit Price</td>
-              <td>Total</td>
+              <td>Amount</td>
             </tr>
             ${invoice.line_items.map(item => `
               <tr class="item">
-                <td>${item.description}</td>
+                <td>${escapeHtml(item.description)} <small>(${escapeHtml(item.tax_code)} ${(item.tax_rate * 100).toFixed(2)}%)</small></td>
                 <td>${item.quantity}</td>
                 <td>${invoice.currency} ${item.unit_price.toFixed(2)}</td>
-                <td>${invoice.currency} ${(item.quantity * item.unit_price).toFixed(2)}</td>
+                <td>${invoice.currency} ${item.net_amount.toFixed(2)}</td>
               </tr>
             `).join('')}
+            <tr class="item">
+              <td>${invoice.prices_include_tax ? 'Prices include tax' : ''}</td>
+              <td></td>
+              <td>Subtotal:</td>
+              <td>${invoice.currency} ${invoice.subtotal.toFixed(2)}</td>
+            </tr>
+            ${invoice.tax_breakdown.map(tax => `
+              <tr class="item">
+                <td></td>
+                <td></td>
+                <td>${tax.label} on ${invoice.currency} ${tax.taxable_amount.toFixed(2)}:</td>
+                <td>${invoice.currency} ${tax.tax_amount.toFixed(2)}</td>
+              </tr>
+            `).join('')}
+            ${invoice.tax_exempt ? `
+              <tr class="item">
+                <td colspan="4">Tax exempt: ${escapeHtml(invoice.tax_exemption_reason ?? '')}</td>
+              </tr>
+            ` : ''}
             <tr class="total">
               <td></td>
               <td></td>
               <td>Total:</td>
+              <td>${invoice.currency} ${invoice.total_amount.toFixed(2)}</td>
+            </tr>
+            ${invoice.payments.map(p => `
+              <tr class="item">
+                <td></td>
+                <td></td>
+                <td>${p.type === 'refund' ? 'Refund' : 'Payment'} ${p.payment_date}:</td>
+                <td>${invoice.currency} ${(p.type === 'refund' ? p.amount : -p.amount).toFixed(2)}</td>
+              </tr>
+            `).join('')}
+            ${creditNotes.filter(cn => cn.invoice_id === invoice.id).map(cn => `
+              <tr class="item">
+                <td></td>
+                <td></td>
+                <td>Credit note ${cn.id} ${cn.issue_date}:</td>
+                <td>${invoice.currency} ${(-cn.amount).toFixed(2)}</td>
+              </tr>
+            `).join('')}
+            <tr class="total">
+              <td></td>
+              <td></td>
+              <td>Balance Due:</td>
               <td>${invoice.currency} ${invoice.balance.toFixed(2)}</td>
             </tr>
           </table>
           
-          <a href="javascript:window.print()" class="print-btn">Download PDF / Print</a>
+          <a href="/acc/invoices/${invoice.id}/pdf?download=1" class="print-btn">Download PDF</a>
         </div>
       </body>
     </html>
@@ -660,114 +702,483 @@ app.get('/acc/invoices/:id/view', (req, res) => {
   res.type('html').send(html)
 })
 
-// 2. POST /acc/invoices/:id/reminder: Send Reminder
-app.post('/acc/invoices/:id/reminder', (req, res) => {
-  const { id } = req.params
-  const { reminder_type, send_date } = req.body
+// Helper to flatten an invoice into what the PDF renderer prints
+const toInvoicePdfData = (invoice: Invoice): InvoicePdfData => {
+  const customer = customers.get(invoice.customer_id)
+  const lines = invoice.line_items.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unit_price,
+    taxCode: item.tax_code,
+    amount: item.net_amount,
+  }))
+
+  return {
+    id: invoice.id,
+    invoiceDate: invoice.invoice_date,
+    dueDate: invoice.due_date,
+    paymentTerms: invoice.payment_terms,
+    currency: invoice.currency,
+    status: invoice.status,
+    billTo: customer ? [customer.name, ...formatAddress(customer)] : [`Customer ID: ${invoice.customer_id}`],
+    lines,
+    subtotal: invoice.subtotal,
+    taxes: invoice.tax_breakdown.map((tax) => ({ label: `${tax.label} on ${tax.taxable_amount.toFixed(2)}`, amount: tax.tax_amount })),
+    total: invoice.total_amount,
+    balance: invoice.balance,
+  }
+}
 
-  const invoice = invoices.find(i => i.id === id)
+// 1.2 GET /acc/invoices/:id/pdf: Server-side PDF (inline, or ?download=1 for an attachment)
+app.get('/acc/invoices/:id/pdf', describeRoute('Invoice as PDF', { query: z.object({ download: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
+  const invoice = invoices.get(req.params.id)
   if (!invoice) return res.status(404).json({ error: 'Invoice not found' })
 
-  const collection = collections.find(c => c.invoice_id === id)
-  if (collection) {
-    collection.last_action = `Reminder: ${reminder_type}`
-    collection.notes.push({
-      date: new Date().toISOString(),
-      user: 'System',
-      action: 'Reminder',
-      comment: `Sent ${reminder_type} reminder scheduled for ${send_date}`
+  const disposition = req.query.download ? 'attachment' : 'inline'
+  res.type('application/pdf')
+  res.setHeader('Content-Disposition', `${disposition}; filename="${invoice.id}.pdf"`)
+  renderInvoicePdf(toInvoicePdfData(invoice)).pipe(res)
+})
+
+// 1.3 POST /acc/invoices/:id/payments: Record a payment or refund
+app.post('/acc/invoices/:id/payments', describeRoute('Record a payment or refund', { body: z.object({ amount: z.number().positive(), method: z.enum(PAYMENT_METHODS), type: z.enum(['payment', 'refund']).optional(), reference: z.string().optional(), payment_date: isoDate.optional(), comments: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
+  try {
+    const { payment, invoice, previousStatus } = recordPayment(req.params.id, req.body, actorOf(req, 'Agent'))
+    res.json({
+      status: 'recorded',
+      payment,
+      invoice_id: invoice.id,
+      invoice_status: invoice.status,
+      previous_status: previousStatus,
+      balance: Math.max(invoice.balance, 0),
+      overpayment: invoice.balance < 0 ? -invoice.balance : 0
     })
+  } catch (error) {
+    sendServiceError(res, error)
   }
+})
+
+// 1.4 GET /acc/invoices/:id/payments: Payment history
+app.get('/acc/invoices/:id/payments', describeRoute('Payment history of an invoice'), authorize(...FINANCE), (req, res) => {
+  const invoice = invoices.get(req.params.id)
+  if (!invoice) return res.status(404).json({ error: 'Invoice not found' })
 
   res.json({
-    status: 'sent',
-    message: `Reminder (${reminder_type}) queued for invoice ${id}`
+    invoice_id: invoice.id,
+    currency: invoice.currency,
+    total_amount: invoice.total_amount,
+    balance: invoice.balance,
+    status: invoice.status,
+    payments: invoice.payments
   })
 })
 
+// 1.5 POST /acc/invoices/:id/credit-notes: Credit part or all of an issued invoice
+app.post('/acc/invoices/:id/credit-notes', describeRoute('Credit part or all of an issued invoice', { body: z.object({ amount: z.number().positive(), reason: z.string(), issue_date: isoDate.optional() }) }), authorize(...FINANCE), (req, res) => {
+  try {
+    const { creditNote, invoice, previousStatus } = issueCreditNote(req.params.id, req.body, actorOf(req, 'Agent'))
+    res.status(201).json({
+      credit_note: creditNote,
+      invoice_id: invoice.id,
+      invoice_status: invoice.status,
+      previous_status: previousStatus,
+      balance: invoice.balance
+    })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
+
+// 1.6 GET /acc/invoices/:id/credit-notes: Credit notes issued against an invoice
+app.get('/acc/invoices/:id/credit-notes', describeRoute('Credit notes issued against an invoice'), authorize(...FINANCE), (req, res) => {
+  const invoice = invoices.get(req.params.id)
+  if (!invoice) return res.status(404).json({ error: 'Invoice not found' })
+
+  const notes = creditNotes.filter(cn => cn.invoice_id === invoice.id)
+  res.json({ invoice_id: invoice.id, credited_amount: invoice.credited_amount, count: notes.length, credit_notes: notes })
+})
+
+// 2. POST /acc/invoices/:id/reminder: Send Reminder
+// Sends now, or hands the reminder to the dunning scheduler when send_date is in the future
+app.post('/acc/invoices/:id/reminder', describeRoute('Send a payment reminder now or schedule it', { body: z.object({ reminder_type: z.string().optional(), send_date: isoDate.optional() }) }), authorize(...FINANCE), async (req, res, next) => {
+  try {
+    res.json(await requestReminder(req.params.id, req.body, actorOf(req, 'Agent')))
+  } catch (error) {
+    sendServiceError(res, error, next)
+  }
+})
+
+// 2.1 POST /acc/dunning/run: Evaluate the dunning policy now (e.g. from a cron on serverless hosts)
+app.post('/acc/dunning/run', describeRoute('Evaluate the dunning policy now', { body: z.object({ as_of_date: isoDate.optional() }) }), authorize(...FINANCE), async (req, res, next) => {
+  const asOf = req.body?.as_of_date
+  if (asOf && !isDate(asOf)) {
+    return res.status(400).json({ error: 'as_of_date must be a valid YYYY-MM-DD date' })
+  }
+  // The run saves statuses and sends real reminders, so it cannot look ahead
+  if (asOf && asOf > new Date().toISOString().slice(0, 10)) {
+    return res.status(400).json({ error: 'as_of_date cannot be in the future' })
+  }
+  try {
+    res.json(await dunning.run(asOf))
+  } catch (error) {
+    if (error instanceof DunningRunInProgressError) return res.status(409).json({ error: error.message })
+    next(error)
+  }
+})
+
 // 3. GET /acc/invoices/:id/collections: Get Collection Status
-app.get('/acc/invoices/:id/collections', (req, res) => {
-  const { id } = req.params
-  const collection = collections.find(c => c.invoice_id === id)
-  
-  if (!collection) return res.status(404).json({ error: 'Collection record not found' })
-  
-  res.json({
-    invoice_id: collection.invoice_id,
-    collection_status: collection.status,
-    last_action: collection.last_action,
-    next_action_due: collection.next_action_due,
-    notes: collection.notes
-  })
+app.get('/acc/invoices/:id/collections', describeRoute('Collection status of an invoice'), authorize(...FINANCE), (req, res) => {
+  try {
+    res.json(collectionStatus(req.params.id))
+  } catch (error) {
+    sendServiceError(res, error)
+  }
 })
 
 // 4. POST /acc/invoices/:id/collections: Update Collection Action
-app.post('/acc/invoices/:id/collections', (req, res) => {
-  const { id } = req.params
+app.post('/acc/invoices/:id/collections', describeRoute('Log a collection action', { body: z.object({ action: z.string(), comment: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
   const { action, comment } = req.body
 
-  const collection = collections.find(c => c.invoice_id === id)
-  if (!collection) return res.status(404).json({ error: 'Collection record not found' })
-
-  collection.last_action = action
-  collection.notes.push({
-    date: new Date().toISOString(),
-    user: 'Agent', // In real app, get from auth context
-    action,
-    comment
-  })
+  try {
+    logCollectionAction(req.params.id, action, comment, actorOf(req, 'Agent'))
+    res.json({
+      status: 'updated',
+      message: 'Collection action logged successfully'
+    })
+  } catch (error) {
+    sendServiceError(res, error)
+  }
+})
 
-  res.json({
-    status: 'updated',
-    message: 'Collection action logged successfully'
-  })
+// Helper to read as_of_date / buckets query params shared by the aging routes
+const agingQuery = z.object({
+  as_of_date: isoDate.optional(),
+  buckets: z.string().optional().describe('Comma-separated day boundaries, e.g. 30,60,90'),
+  reporting_currency: z.string().optional(),
 })
 
+const parseAgingQuery = (query: express.Request['query']) => {
+  const asOfDate = (query.as_of_date as string) || new Date().toISOString().slice(0, 10)
+  if (!isDate(asOfDate)) {
+    return { error: 'as_of_date must be a valid YYYY-MM-DD date' }
+  }
+
+  const boundaries = query.buckets ? parseBucketBoundaries(query.buckets as string) : config.arAgingBuckets
+  if (!boundaries) {
+    return { error: 'buckets must be a comma-separated list of positive day counts, e.g. 30,60,90' }
+  }
+
+  const reportingCurrency = ((query.reporting_currency as string) || config.reportingCurrency).toUpperCase()
+
+  return { asOfDate, boundaries, reportingCurrency }
+}
+
+// Helper to age open invoices and add reporting-currency totals at the as-of date rates
+const buildAgingReport = (query: { asOfDate: string; boundaries: number[]; reportingCurrency: string }) =>
+  convertAging(
+    computeArAging(invoices.all(), query.asOfDate, query.boundaries),
+    query.reportingCurrency,
+    (from) => rateBetween(from, query.reportingCurrency, query.asOfDate)
+  )
+
+// Unrealized FX on open balances: what they are worth now versus their booked rate
+const unrealizedFx = (asOfDate: string) =>
+  invoices
+    .filter(inv => (inv.status === 'Sent' || inv.status === 'Overdue') && inv.balance > 0 && inv.currency !== inv.reporting_currency)
+    .map(inv => {
+      const currentRate = rateBetween(inv.currency, inv.reporting_currency, asOfDate)
+      return {
+        invoice_id: inv.id,
+        currency: inv.currency,
+        reporting_currency: inv.reporting_currency,
+        balance: inv.balance,
+        booked_rate: inv.fx_rate,
+        current_rate: currentRate,
+        unrealized_fx: fxDifference(inv.balance, inv.fx_rate, currentRate)
+      }
+    })
+
 // 5. GET /acc/reports/ar-aging: AR Aging Report
-app.get('/acc/reports/ar-aging', (req, res) => {
-  const { as_of_date } = req.query
-  
-  // Mock calculation
-  const totalDue = invoices.reduce((sum, inv) => sum + inv.balance, 0)
-  const overdueInvoices = invoices.filter(inv => inv.status === 'Overdue')
-  const totalOverdue = overdueInvoices.reduce((sum, inv) => sum + inv.balance, 0)
+app.get('/acc/reports/ar-aging', describeRoute('AR aging report', { query: agingQuery }), authorize(...FINANCE), (req, res) => {
+  const query = parseAgingQuery(req.query)
+  if ('error' in query) return res.status(400).json({ error: query.error })
+
+  let report
+  try {
+    report = buildAgingReport(query)
+  } catch (error) {
+    if (error instanceof FxRateMissingError) return res.status(422).json({ error: error.message })
+    throw error
+  }
+  const params = new URLSearchParams({
+    as_of_date: query.asOfDate,
+    buckets: query.boundaries.join(','),
+    reporting_currency: query.reportingCurrency
+  })
 
   res.json({
     report_id: `RPT-${Date.now()}`,
-    download_url: `/downloads/ar-aging-${as_of_date}.xlsx`,
-    summary: {
-      total_due: totalDue,
-      total_overdue: totalOverdue,
-      by_bucket: {
-        '0-30': totalDue - totalOverdue,
-        '31-60': totalOverdue * 0.8, // Mock split
-        '61-90': totalOverdue * 0.2,
-        '90+': 0
-      }
-    }
+    as_of_date: report.as_of_date,
+    download_url: `/acc/reports/ar-aging/download?format=xlsx&${params}`,
+    csv_url: `/acc/reports/ar-aging/download?format=csv&${params}`,
+    buckets: report.buckets,
+    summary: report.totals_by_currency,
+    reporting_summary: report.reporting,
+    by_customer: report.rows,
+    invoices: report.invoices,
   })
 })
 
+// 5.1 GET /acc/reports/ar-aging/download: Stream the aging report as CSV or XLSX
+app.get('/acc/reports/ar-aging/download', describeRoute('AR aging report as CSV or XLSX', { query: agingQuery.extend({ format: z.enum(['csv', 'xlsx']).optional() }) }), authorize(...FINANCE), async (req, res, next) => {
+  const query = parseAgingQuery(req.query)
+  if ('error' in query) return res.status(400).json({ error: query.error })
+
+  const format = ((req.query.format as string) || 'xlsx').toLowerCase()
+  if (format !== 'csv' && format !== 'xlsx') {
+    return res.status(400).json({ error: 'format must be csv or xlsx' })
+  }
+
+  let report
+  try {
+    report = buildAgingReport(query)
+  } catch (error) {
+    if (error instanceof FxRateMissingError) return res.status(422).json({ error: error.message })
+    return next(error)
+  }
+  const filename = `ar-aging-${query.asOfDate}.${format}`
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+
+  if (format === 'csv') {
+    return res.type('text/csv').send(agingToCsv(report))
+  }
+
+  res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+  try {
+    await writeAgingXlsx(report, res)
+  } catch (error) {
+    // Once streaming has started Express can only drop the connection
+    next(error)
+  }
+})
+
 // 6. GET /acc/reports/invoice-status: Invoice Status Report
-app.get('/acc/reports/invoice-status', (req, res) => {
+app.get('/acc/reports/invoice-status', describeRoute('Invoice counts and totals by status and currency', { query: z.object({ status: z.enum(INVOICE_STATUSES).optional(), start_date: isoDate.optional(), end_date: isoDate.optional(), reporting_currency: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
   const { status, start_date, end_date } = req.query
+  const reportingCurrency = ((req.query.reporting_currency as string) || config.reportingCurrency).toUpperCase()
+  const rateDate = (end_date as string) || new Date().toISOString().slice(0, 10)
 
-  let filtered = invoices
+  let filtered = invoices.all()
   if (status) {
     filtered = filtered.filter(i => i.status.toLowerCase() === (status as string).toLowerCase())
   }
+  if (start_date) filtered = filtered.filter(i => i.invoice_date >= (start_date as string))
+  if (end_date) filtered = filtered.filter(i => i.invoice_date <= (end_date as string))
+
+  const byCurrency: Record<string, { count: number; total_value: number; rate: number; converted_value: number }> = {}
+  try {
+    filtered.forEach(i => {
+      byCurrency[i.currency] ??= { count: 0, total_value: 0, rate: rateBetween(i.currency, reportingCurrency, rateDate), converted_value: 0 }
+      const entry = byCurrency[i.currency]
+      entry.count++
+      // Only issued invoices are receivables: a Draft's balance is its whole unsent total
+      if (i.status === 'Draft' || i.status === 'Cancelled') return
+      entry.total_value = roundCents(entry.total_value + i.balance)
+      entry.converted_value = roundCents(entry.total_value * entry.rate)
+    })
+  } catch (error) {
+    if (error instanceof FxRateMissingError) return res.status(422).json({ error: error.message })
+    throw error
+  }
 
   res.json({
     report_id: `RPT-STAT-${Date.now()}`,
-    download_url: `/downloads/inv-status.pdf`,
     summary: {
       count: filtered.length,
-      total_value: filtered.reduce((sum, i) => sum + i.balance, 0),
+      reporting_currency: reportingCurrency,
+      rate_date: rateDate,
+      total_value: roundCents(Object.values(byCurrency).reduce((sum, c) => sum + c.converted_value, 0)),
+      by_currency: byCurrency,
       date_range: { start: start_date, end: end_date }
     }
   })
 })
 
+// 6.1 GET /acc/reports/fx: Realized FX on payments in a period and unrealized FX on open balances
+app.get('/acc/reports/fx', describeRoute('Realized and unrealized FX gains and losses', { query: z.object({ as_of_date: isoDate.optional(), start_date: isoDate.optional() }) }), authorize(...FINANCE), (req, res) => {
+  const asOfDate = (req.query.as_of_date as string) || new Date().toISOString().slice(0, 10)
+  const startDate = (req.query.start_date as string) || `${asOfDate.slice(0, 4)}-01-01`
+
+  const realized = invoices.all().flatMap(inv =>
+    inv.payments
+      .filter(p => p.payment_date >= startDate && p.payment_date <= asOfDate && p.realized_fx !== 0)
+      .map(p => ({
+        payment_id: p.id,
+        invoice_id: inv.id,
+        currency: inv.currency,
+        reporting_currency: inv.reporting_currency,
+        amount: p.type === 'refund' ? -p.amount : p.amount,
+        booked_rate: inv.fx_rate,
+        payment_rate: p.fx_rate,
+        realized_fx: p.realized_fx
+      }))
+  )
+
+  let unrealized
+  try {
+    unrealized = unrealizedFx(asOfDate)
+  } catch (error) {
+    if (error instanceof FxRateMissingError) return res.status(422).json({ error: error.message })
+    throw error
+  }
+
+  res.json({
+    as_of_date: asOfDate,
+    period: { start: startDate, end: asOfDate },
+    realized,
+    realized_total: roundCents(realized.reduce((sum, r) => sum + r.realized_fx, 0)),
+    unrealized,
+    unrealized_total: roundCents(unrealized.reduce((sum, u) => sum + u.unrealized_fx, 0))
+  })
+})
+
+// 6.2 FX rate table
+app.get('/acc/fx-rates', describeRoute('FX rate table', { query: z.object({ currency: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
+  const { currency } = req.query
+
+  let rates = fxRates.all()
+  if (currency) rates = rates.filter(r => r.currency === (currency as string).toUpperCase())
+  rates.sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date))
+
+  res.json({ count: rates.length, rates })
+})
+
+// Accepts one rate or an array of rates; an existing currency/date quote is replaced
+app.post('/acc/fx-rates', describeRoute('Add or replace FX rates (one rate or an array)', { body: fxRateSchema }), authorize(...FINANCE), (req, res) => {
+  const parsed = fxRateSchema.array().safeParse(Array.isArray(req.body) ? req.body : [req.body])
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid FX rate', details: parsed.error.issues })
+  }
+
+  parsed.data.forEach(rate => fxRates.save(rate))
+  res.status(201).json({ message: `${parsed.data.length} FX rate(s) loaded`, rates: parsed.data })
+})
+
+
+// 7. Customer master data
+app.get('/acc/customers', describeRoute('List customers', { query: z.object({ q: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
+  const { q } = req.query
+
+  let list = customers.all()
+  if (q) list = list.filter(c => c.name.toLowerCase().includes((q as string).toLowerCase()) || c.id === q)
+
+  res.json({ count: list.length, customers: list })
+})
+
+app.get('/acc/customers/:id', describeRoute('Read a customer'), authorize(...FINANCE), (req, res) => {
+  const customer = customers.get(req.params.id)
+  if (!customer) return res.status(404).json({ error: 'Customer not found' })
+  res.json(customer)
+})
+
+app.post('/acc/customers', describeRoute('Create a customer', { body: customerSchema }), authorize(...FINANCE), (req, res) => {
+  const parsed = customerSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid customer', details: parsed.error.issues })
+  }
+
+  const id = parsed.data.id || nextCustomerId()
+  if (customers.has(id)) return res.status(409).json({ error: `Customer ${id} already exists` })
+
+  const now = new Date().toISOString()
+  const customer = customers.save({ ...parsed.data, id, created_at: now, updated_at: now })
+  res.status(201).json({ message: 'Customer created', customer })
+})
+
+app.put('/acc/customers/:id', describeRoute('Update a customer', { body: customerSchema }), authorize(...FINANCE), (req, res) => {
+  const existing = customers.get(req.params.id)
+  if (!existing) return res.status(404).json({ error: 'Customer not found' })
+
+  const parsed = customerSchema.safeParse({ ...existing, ...req.body, id: existing.id })
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid customer', details: parsed.error.issues })
+  }
+
+  const customer = customers.save({ ...parsed.data, id: existing.id, created_at: existing.created_at, updated_at: new Date().toISOString() })
+  res.json({ message: 'Customer updated', customer })
+})
+
+app.delete('/acc/customers/:id', describeRoute('Delete a customer without invoices'), authorize(...FINANCE), (req, res) => {
+  const { id } = req.params
+  if (!customers.has(id)) return res.status(404).json({ error: 'Customer not found' })
+
+  const hasInvoices = invoices.find(inv => inv.customer_id === id)
+  if (hasInvoices) {
+    return res.status(409).json({ error: `Customer ${id} has invoices and cannot be deleted` })
+  }
+
+  customers.delete(id)
+  res.json({ message: `Customer ${id} deleted` })
+})
+
+// 7.1 GET /acc/customers/:id/statement: Activity and running balance for a period
+app.get('/acc/customers/:id/statement', describeRoute('Customer statement with running balance', { query: z.object({ start_date: isoDate.optional(), end_date: isoDate.optional(), currency: z.string().optional() }) }), authorize(...FINANCE), (req, res) => {
+  const customer = customers.get(req.params.id)
+  if (!customer) return res.status(404).json({ error: 'Customer not found' })
+
+  const today = new Date().toISOString().slice(0, 10)
+  const end = (req.query.end_date as string) || today
+  const start = (req.query.start_date as string) || `${end.slice(0, 4)}-01-01`
+  if (!isDate(start) || !isDate(end) || start > end) {
+    return res.status(400).json({ error: 'start_date and end_date must be YYYY-MM-DD with start_date <= end_date' })
+  }
+
+  const currency = ((req.query.currency as string) || customer.default_currency).toUpperCase()
+  const withCredits = invoices.all().map(inv => ({ ...inv, credit_notes: creditNotes.filter(cn => cn.invoice_id === inv.id) }))
+  res.json(buildStatement(customer, withCredits, currency, start, end))
+})
+
+// --- Employee Onboarding ---
+
+// 1. POST /hr/onboarding/import: Bulk onboarding from a CSV body (text/csv) or JSON
+// ({ csv } or { rows }); ?dry_run=true validates without creating records
+app.post('/hr/onboarding/import', describeRoute('Bulk onboarding from CSV (text/csv) or JSON rows', { query: z.object({ dry_run: z.boolean().optional() }), body: z.object({ csv: z.string().optional(), rows: z.array(z.record(z.unknown())).optional(), dry_run: z.boolean().optional(), initiated_by: z.string().optional() }) }), authorize('HR'), express.text({ type: ['text/csv', 'text/plain'], limit: config.jsonBodyLimit }), (req, res) => {
+  const body = typeof req.body === 'string' ? { csv: req.body } : Array.isArray(req.body) ? { rows: req.body } : req.body ?? {}
+  const dryRun = req.query.dry_run === 'true' || body.dry_run === true
+  if (body.csv !== undefined && typeof body.csv !== 'string') {
+    return res.status(400).json({ error: 'csv must be a string' })
+  }
+  if (body.rows !== undefined && (!Array.isArray(body.rows) || body.rows.some((r: unknown) => !r || typeof r !== 'object'))) {
+    return res.status(400).json({ error: 'rows must be an array of objects' })
+  }
+
+  try {
+    const report = importOnboarding({ csv: body.csv, rows: body.rows }, actorOf(req, body.initiated_by || 'HR Bulk Import'), dryRun)
+    res.status(report.summary.created > 0 ? 201 : 200).json(report)
+  } catch (error) {
+    if (error instanceof ImportError) return res.status(400).json({ error: error.message })
+    throw error
+  }
+})
+
+// 2. GET /hr/sla: Open onboarding/offboarding records with at-risk or overdue steps.
+// Newly overdue steps are escalated, so a cron can call this where no timer runs.
+app.get('/hr/sla', describeRoute('Onboarding/offboarding records with at-risk or overdue steps; escalates new breaches', { query: z.object({ process: z.enum(['onboarding', 'offboarding']).optional(), as_of_date: isoDate.optional() }) }), authorize('HR', 'Manager', 'IT'), async (req, res, next) => {
+  const asOf = req.query.as_of_date as string | undefined
+  const flow = req.query.process as string | undefined
+  if (asOf && !isDate(asOf)) {
+    return res.status(400).json({ error: 'as_of_date must be YYYY-MM-DD' })
+  }
+  if (flow && flow !== 'onboarding' && flow !== 'offboarding') {
+    return res.status(400).json({ error: 'process must be onboarding or offboarding' })
+  }
+
+  try {
+    res.json(await slaMonitor.run(asOf, flow))
+  } catch (error) {
+    sendServiceError(res, error, next)
+  }
+})
 
 export default app
 
@@ -776,4 +1187,6 @@ const PORT = process.env.PORT || 3000
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`)
   console.log(`MCP Streamable HTTP endpoint: http://localhost:${PORT}/mcp`)
+  dunning.start(config.dunningIntervalMs)
+  slaMonitor.start(config.slaIntervalMs)
 })
@@ -0,0 +1,32 @@
+export const INVOICE_STATUSES = ['Draft', 'Sent', 'Overdue', 'Paid', 'Cancelled'] as const
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number]
+
+// Allowed moves between invoice statuses. Paid can fall back to Sent/Overdue when a
+// refund reopens the balance; Cancelled is terminal.
+const TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  Draft: ['Sent', 'Cancelled'],
+  Sent: ['Overdue', 'Paid', 'Cancelled'],
+  Overdue: ['Sent', 'Paid', 'Cancelled'],
+  Paid: ['Sent', 'Overdue'],
+  Cancelled: [],
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public invoiceId: string, public from: InvoiceStatus, public to: InvoiceStatus) {
+    super(`Invoice ${invoiceId} cannot move from ${from} to ${to}`)
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus) =>
+  from === to || TRANSITIONS[from].includes(to)
+
+export const allowedTransitions = (from: InvoiceStatus) => TRANSITIONS[from]
+
+// Move an invoice to a new status, or throw if the state machine does not allow it
+export function transition<T extends { id: string; status: InvoiceStatus }>(invoice: T, to: InvoiceStatus): T {
+  if (!canTransition(invoice.status, to)) throw new InvalidTransitionError(invoice.id, invoice.status, to)
+  invoice.status = to
+  return invoice
+}
@@ -0,0 +1,120 @@
+import PDFDocument from 'pdfkit'
+import { config } from './config.js'
+
+// Everything the PDF needs, already computed; the renderer does no business logic
+export interface InvoicePdfData {
+  id: string
+  invoiceDate: string
+  dueDate: string
+  paymentTerms: string
+  currency: string
+  status: string
+  billTo: string[]
+  lines: Array<{ description: string; quantity: number; unitPrice: number; taxCode: string; amount: number }>
+  subtotal: number
+  taxes: Array<{ label: string; amount: number }>
+  total: number
+  balance: number
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  Draft: '#757575',
+  Sent: '#1565c0',
+  Paid: '#2e7d32',
+  Overdue: '#c62828',
+  Cancelled: '#757575',
+}
+
+const PAGE_MARGIN = 50
+const COLUMNS = [
+  { label: 'Description', x: 50, width: 210, align: 'left' as const },
+  { label: 'Tax', x: 265, width: 50, align: 'left' as const },
+  { label: 'Qty', x: 315, width: 50, align: 'right' as const },
+  { label: 'Unit Price', x: 370, width: 85, align: 'right' as const },
+  { label: 'Amount', x: 460, width: 85, align: 'right' as const },
+]
+
+const money = (currency: string, value: number) => `${currency} ${value.toFixed(2)}`
+
+// Render an invoice as a PDF stream. The document is already ended, so the caller
+// only has to pipe it (to an HTTP response, a file, a mail attachment...).
+export function renderInvoicePdf(invoice: InvoicePdfData): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `Invoice ${invoice.id}` } })
+  const { company } = config
+
+  // Company header
+  doc.fontSize(20).font('Helvetica-Bold').text(company.name, PAGE_MARGIN, PAGE_MARGIN)
+  doc.fontSize(9).font('Helvetica').fillColor('#555555')
+  company.address.forEach((line) => doc.text(line))
+  doc.text(company.email)
+  if (company.taxId) doc.text(`Tax ID: ${company.taxId}`)
+
+  doc.fillColor('#000000').fontSize(24).font('Helvetica-Bold').text('INVOICE', 350, PAGE_MARGIN, { width: 195, align: 'right' })
+  doc.fontSize(10).font('Helvetica')
+  doc.text(`Invoice #: ${invoice.id}`, 350, doc.y + 5, { width: 195, align: 'right' })
+  doc.text(`Date: ${invoice.invoiceDate}`, { width: 195, align: 'right' })
+  doc.text(`Due Date: ${invoice.dueDate}`, { width: 195, align: 'right' })
+  doc.text(`Terms: ${invoice.paymentTerms}`, { width: 195, align: 'right' })
+
+  // Bill to
+  doc.font('Helvetica-Bold').text('Bill To:', PAGE_MARGIN, 160)
+  doc.font('Helvetica')
+  invoice.billTo.forEach((line) => doc.text(line))
+
+  // Status stamp
+  doc.save()
+  doc.rotate(-15, { origin: [470, 190] })
+  doc.lineWidth(2).strokeColor(STATUS_COLORS[invoice.status] || '#333333').roundedRect(400, 170, 140, 40, 6).stroke()
+  doc.fillColor(STATUS_COLORS[invoice.status] || '#333333').fontSize(18).font('Helvetica-Bold')
+  doc.text(invoice.status.toUpperCase(), 400, 181, { width: 140, align: 'center' })
+  doc.restore()
+
+  // Line items
+  let y = 250
+  doc.rect(PAGE_MARGIN, y - 5, 495, 20).fill('#eeeeee')
+  doc.fillColor('#000000').fontSize(10).font('Helvetica-Bold')
+  COLUMNS.forEach((col) => doc.text(col.label, col.x, y, { width: col.width, align: col.align }))
+  y += 22
+
+  doc.font('Helvetica')
+  invoice.lines.forEach((line) => {
+    const cells = [
+      line.description,
+      line.taxCode,
+      String(line.quantity),
+      money(invoice.currency, line.unitPrice),
+      money(invoice.currency, line.amount),
+    ]
+    const rowHeight = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: COLUMNS[i].width }))) + 8
+    if (y + rowHeight > doc.page.height - PAGE_MARGIN - 120) {
+      doc.addPage()
+      y = PAGE_MARGIN
+    }
+    cells.forEach((cell, i) => doc.text(cell, COLUMNS[i].x, y, { width: COLUMNS[i].width, align: COLUMNS[i].align }))
+    y += rowHeight
+    doc.moveTo(PAGE_MARGIN, y - 4).lineTo(545, y - 4).lineWidth(0.5).strokeColor('#dddddd').stroke()
+  })
+
+  // Totals
+  y += 10
+  const totalRow = (label: string, value: number, bold = false) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+    doc.text(label, 330, y, { width: 125, align: 'right' })
+    doc.text(money(invoice.currency, value), 460, y, { width: 85, align: 'right' })
+    y += 16
+  }
+  totalRow('Subtotal:', invoice.subtotal)
+  invoice.taxes.forEach((tax) => totalRow(`${tax.label}:`, tax.amount))
+  totalRow('Total:', invoice.total, true)
+  if (invoice.balance !== invoice.total) totalRow('Balance Due:', invoice.balance, true)
+
+  doc.fontSize(8).font('Helvetica').fillColor('#777777').text(
+    `Please quote ${invoice.id} with your payment. Questions: ${company.email}`,
+    PAGE_MARGIN,
+    doc.page.height - PAGE_MARGIN - 20,
+    { width: 495, align: 'center' }
+  )
+
+  doc.end()
+  return doc
+}
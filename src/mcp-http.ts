@@ -1,49 +1,151 @@
+import { randomUUID } from 'crypto'
 import express from 'express'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
-import { server } from './mcp-server.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { createServer } from './mcp-server.js'
+import { canGetPrompt, canInvokeTool, toAuthInfo } from './auth.js'
+import { config } from './config.js'
+
+// JSON-RPC error codes for requests refused before they reach a server
+const BAD_REQUEST = -32000
+const FORBIDDEN = -32001
+const INTERNAL_ERROR = -32603
+
+const rpcError = (code: number, message: string, id: unknown = null) => ({ jsonrpc: '2.0', id, error: { code, message } })
+
+// Returns a JSON-RPC error for the first tools/call or prompts/get in the payload the
+// caller may not make
+function forbiddenCall(req: express.Request) {
+  if (!config.auth.enabled || !req.user) return null
+
+  const messages = Array.isArray(req.body) ? req.body : [req.body]
+  const denied = messages.find(
+    (message) =>
+      (message?.method === 'tools/call' && !canInvokeTool(req.user!, message.params?.name)) ||
+      (message?.method === 'prompts/get' && !canGetPrompt(req.user!, message.params?.name))
+  )
+  if (!denied) return null
+
+  const verb = denied.method === 'prompts/get' ? 'get prompt' : 'invoke'
+  return rpcError(FORBIDDEN, `Forbidden: ${req.user.name} may not ${verb} ${denied.params?.name}`, denied.id ?? null)
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport
+  // Identity that initialized the session; later requests must come from the same caller
+  ownerId?: string
+  lastSeen: number
+}
+
+// Stateless: a fresh server and transport for every POST, closed with the response. There
+// is no session to stream to outside a call, so GET and DELETE are refused.
+async function handleStateless(req: express.Request, res: express.Response) {
+  if (req.method !== 'POST') {
+    return res.status(405).set('Allow', 'POST').json(rpcError(BAD_REQUEST, 'Sessions are disabled (stateless mode); only POST is supported'))
+  }
+
+  const server = createServer()
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+  res.on('close', () => {
+    transport.close()
+    server.close()
+  })
+  await server.connect(transport)
+  await transport.handleRequest(req, res, req.body)
+}
 
 export function createMCPRouter() {
   const router = express.Router()
 
-  // Store active transports by session ID
-  const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {}
+  // Active sessions by Mcp-Session-Id. Each has its own server, so resource subscriptions
+  // and notifications stay with the client that asked for them.
+  const sessions = new Map<string, Session>()
 
-  // Main endpoint for Streamable HTTP
-  router.all('/', async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined
-
-    let transport: StreamableHTTPServerTransport
-
-    if (sessionId && transports[sessionId]) {
-      // Use existing transport for this session
-      transport = transports[sessionId]
-    } else {
-      // Create new transport
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,
-        enableJsonResponse: true,
+  // Close sessions nobody has used for sessionIdleMs; closing the transport removes them
+  if (config.mcp.sessionMode === 'stateful' && config.mcp.sessionIdleMs > 0) {
+    setInterval(() => {
+      const cutoff = Date.now() - config.mcp.sessionIdleMs
+      sessions.forEach((session) => {
+        if (session.lastSeen < cutoff) session.transport.close()
       })
+    }, Math.min(config.mcp.sessionIdleMs, 60 * 1000)).unref()
+  }
 
-      // Clean up transport when closed
-      transport.onclose = () => {
-        if (transport.sessionId) {
-          delete transports[transport.sessionId]
-        }
-      }
+  // Main endpoint for Streamable HTTP: POST for requests, GET for the session's
+  // notification stream, DELETE to end the session. Express 4 does not catch a rejected
+  // handler, so failures are answered here.
+  router.all('/', async (req, res) => {
+    try {
+      await handleRequest(req, res)
+    } catch (error) {
+      console.error('[MCP] Request failed:', error)
+      if (!res.headersSent) res.status(500).json(rpcError(INTERNAL_ERROR, 'Internal server error'))
+      else res.end()
+    }
+  })
+
+  async function handleRequest(req: express.Request, res: express.Response) {
+    if (config.auth.enabled && !req.user) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
 
-      // Store the transport
-      if (transport.sessionId) {
-        transports[transport.sessionId] = transport
+    const forbidden = forbiddenCall(req)
+    if (forbidden) {
+      return res.status(403).json(forbidden)
+    }
+
+    // Expose the verified identity to tool handlers (extra.authInfo)
+    if (req.user) {
+      Object.assign(req, { auth: toAuthInfo(req.user, req.headers.authorization!.slice('Bearer '.length).trim()) })
+    }
+
+    if (config.mcp.sessionMode === 'stateless') {
+      return handleStateless(req, res)
+    }
+
+    const sessionId = req.header('mcp-session-id')
+
+    if (sessionId) {
+      const session = sessions.get(sessionId)
+      if (!session) {
+        return res.status(404).json(rpcError(BAD_REQUEST, `Session ${sessionId} not found or expired; initialize a new session`))
       }
+      if (session.ownerId !== req.user?.id) {
+        return res.status(403).json(rpcError(FORBIDDEN, `Forbidden: session ${sessionId} belongs to another caller`))
+      }
+      session.lastSeen = Date.now()
+      return await session.transport.handleRequest(req, res, req.body)
+    }
 
-      // Connect the server to the transport
-      await server.connect(transport)
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      return res.status(400).json(rpcError(BAD_REQUEST, 'Mcp-Session-Id header is required; only an initialize request may start a session'))
     }
 
-    // Handle the request
-    await transport.handleRequest(req, res, req.body)
-  })
+    const server = createServer()
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, ownerId: req.user?.id, lastSeen: Date.now() })
+      },
+    })
+
+    // Ended by DELETE, idle expiry or the server shutting down
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId)
+    }
+
+    try {
+      await server.connect(transport)
+      await transport.handleRequest(req, res, req.body)
+    } finally {
+      // An initialize that failed leaves no session to close later; release the server and
+      // its record listeners now
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await transport.close()
+        await server.close()
+      }
+    }
+  }
 
   return router
 }
-
@@ -0,0 +1,216 @@
+import { z } from 'zod'
+
+// Why a tool call failed, leading the text of an isError result ("NOT_FOUND: ...") and in
+// its JSON body, so agents can branch without parsing the message
+export const TOOL_ERROR_CODES = [
+  'NOT_FOUND',
+  'INVALID_TRANSITION',
+  'VALIDATION_FAILED',
+  'CONFLICT',
+  'FORBIDDEN',
+  'UPSTREAM_FAILED',
+] as const
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number]
+
+// Code for a module error that carries an HTTP status (PurchaseOrderError, ReceivablesError, ...);
+// their 409s are all refusals in the record's current state
+export const errorCodeForStatus = (status: number): ToolErrorCode =>
+  status === 404
+    ? 'NOT_FOUND'
+    : status === 403
+      ? 'FORBIDDEN'
+      : status === 409
+        ? 'INVALID_TRANSITION'
+        : status >= 500
+          ? 'UPSTREAM_FAILED'
+          : 'VALIDATION_FAILED'
+
+const serialized = (value: unknown) => ({ type: 'text' as const, text: JSON.stringify(value, null, 2) })
+
+// Successful call: `message` is the text summary, followed by the structured content as
+// JSON for clients that do not read structuredContent
+export function toolResult<T extends { message: string }>(data: T) {
+  const structuredContent: Record<string, unknown> = { success: true, ...data }
+  return {
+    content: [{ type: 'text' as const, text: data.message }, serialized(structuredContent)],
+    structuredContent,
+  }
+}
+
+// Failed call. `details` adds context an agent can act on (pending steps, the existing record).
+// There is no structuredContent: clients validate it against the tool's output schema even
+// on errors, so the body only goes out as JSON text.
+export function toolError(code: ToolErrorCode, error: string, details: Record<string, unknown> = {}) {
+  return {
+    isError: true,
+    content: [{ type: 'text' as const, text: `${code}: ${error}` }, serialized({ success: false, code, error, ...details })],
+  }
+}
+
+// Output schema for a tool: the structuredContent of a successful call. Failed calls are
+// isError results whose JSON text is { success: false, code, error } instead.
+export const toolOutput = <S extends z.ZodRawShape>(shape: S) =>
+  z.object({
+    success: z.literal(true),
+    message: z.string().describe('Human-readable summary'),
+    ...shape,
+  })
+
+// Records tools return. Only the fields agents are expected to branch on are listed;
+// the rest are passed through as stored.
+
+const date = z.string().describe('YYYY-MM-DD')
+const timestamp = z.string().describe('ISO 8601')
+
+export const approvalSchema = z.object({ approved: z.boolean(), approver: z.string().optional(), date: timestamp.optional() })
+
+export const systemFlagsSchema = z.object({
+  hrms: z.boolean(),
+  email: z.boolean(),
+  network: z.boolean(),
+  projectTools: z.boolean(),
+})
+
+export const systemResultSchema = z
+  .object({
+    status: z.enum(['provisioned', 'deprovisioned', 'failed']),
+    accountId: z.string().optional(),
+    error: z.string().optional(),
+    attempts: z.number(),
+  })
+  .passthrough()
+
+export const systemResultsSchema = z.record(systemResultSchema).describe('Connector result per system')
+
+export const auditEntrySchema = z.object({ date: timestamp, action: z.string(), actor: z.string(), details: z.string() })
+
+export const workflowProgressSchema = z.object({
+  variant: z.string().nullable(),
+  requiredSteps: z.array(z.string()),
+  skippedSteps: z.array(z.string()),
+  pendingSteps: z.array(z.string()),
+  phases: z.record(z.boolean()).describe('Whether every required step of each phase is done'),
+  allowedActions: z.array(z.string()),
+})
+
+export const stepDeadlineSchema = z.object({
+  step: z.string(),
+  label: z.string(),
+  phase: z.string(),
+  dueDate: date,
+  done: z.boolean(),
+  state: z.enum(['done', 'on_track', 'at_risk', 'overdue']),
+  daysRemaining: z.number(),
+})
+
+export const employeeSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    dateOfJoining: date,
+    department: z.string(),
+    designation: z.string(),
+    manager: z.string(),
+    employmentType: z.string(),
+    employmentStatus: z.string().optional(),
+  })
+  .passthrough()
+
+export const onboardingStatusSchema = {
+  employeeId: z.string(),
+  employee: employeeSchema,
+  status: z.string(),
+  approvals: z.object({ hr: approvalSchema, manager: approvalSchema }),
+  systemProvisioning: systemFlagsSchema,
+  provisioningResults: systemResultsSchema,
+  compliance: z.object({ ndaSigned: z.boolean(), idVerified: z.boolean(), backgroundCheck: z.boolean() }),
+  financeEnrollment: z.object({ payroll: z.boolean(), benefits: z.boolean() }),
+  workflow: workflowProgressSchema,
+  deadlines: z.array(stepDeadlineSchema),
+  auditTrail: z.array(auditEntrySchema),
+}
+
+export const offboardingStatusSchema = {
+  employeeId: z.string(),
+  employeeName: z.string(),
+  status: z.string(),
+  lastWorkingDay: date,
+  approvals: z.object({ manager: approvalSchema, hr: approvalSchema }),
+  systemDeprovisioning: systemFlagsSchema,
+  deprovisioningResults: systemResultsSchema,
+  compliance: z.object({ exitFormSubmitted: z.boolean(), assetsReturned: z.boolean(), clearanceCertificate: z.boolean() }),
+  finalPayroll: z.object({ processed: z.boolean(), benefitsTerminated: z.boolean() }),
+  workflow: workflowProgressSchema,
+  deadlines: z.array(stepDeadlineSchema),
+  auditTrail: z.array(auditEntrySchema),
+}
+
+export const assetSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    description: z.string(),
+    serialNumber: z.string().optional(),
+    status: z.enum(['Available', 'Assigned', 'Lost', 'Retired']),
+    assignedTo: z.string().optional(),
+  })
+  .passthrough()
+
+export const assetSummarySchema = z.object({
+  assetId: z.string(),
+  type: z.string(),
+  description: z.string(),
+  serialNumber: z.string().optional(),
+})
+
+export const documentSchema = z
+  .object({
+    id: z.string(),
+    employeeId: z.string(),
+    type: z.string(),
+    fileName: z.string(),
+    storage: z.enum(['local', 'external']),
+    status: z.enum(['Pending Verification', 'Verified', 'Rejected']),
+    expiresAt: date.optional(),
+  })
+  .passthrough()
+
+export const documentComplianceSchema = {
+  compliance: z.object({ ndaSigned: z.boolean(), idVerified: z.boolean(), backgroundCheck: z.boolean() }),
+  missingDocuments: z.array(z.object({ check: z.string(), documentType: z.string(), reason: z.string() })),
+}
+
+export const approvalRuleSchema = z.object({ id: z.string() }).passthrough()
+
+export const taskSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    projectCode: z.string(),
+    status: z.enum(['Not Started', 'In Progress', 'Completed']),
+    assignedTo: z.array(z.string()),
+  })
+  .passthrough()
+
+export const invoiceSchema = z
+  .object({
+    id: z.string(),
+    customer_id: z.string(),
+    status: z.string(),
+    currency: z.string(),
+    due_date: date,
+    total_amount: z.number(),
+    balance: z.number(),
+    credit_notes: z.array(z.object({ id: z.string() }).passthrough()),
+    allowed_transitions: z.array(z.string()),
+  })
+  .passthrough()
+
+export const creditWarningSchema = z
+  .string()
+  .optional()
+  .describe("Set when the customer's open balance exceeds their credit limit")
+
+export const collectionNoteSchema = z.object({ date: z.string(), user: z.string(), action: z.string(), comment: z.string() })
@@ -0,0 +1,131 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { hasAnyRole, identityFromAuthInfo, type Role } from './auth.js'
+import type { Repository } from './store.js'
+
+// One kind of record, exposed as an index at nexus://<kind> and each record at
+// nexus://<kind>/{<variable>}
+export interface ResourceCollection<T> {
+  kind: string
+  title: string
+  description: string
+  variable: string
+  records: Repository<T>
+  idOf: (record: T) => string
+  // Repositories keyed by the same id whose changes alter what a record reads as
+  // (e.g. an invoice's collection record)
+  related?: Array<Repository<any>>
+  roles: Role[]
+  // Index entry for a record
+  summary: (record: T) => { name: string; description: string }
+  // What reading a record returns; defaults to the stored record
+  view?: (record: T) => unknown
+}
+
+// Same JSON-RPC error code the HTTP router uses for tool calls a role may not make
+const FORBIDDEN = -32001
+
+const jsonContents = (uri: string, value: unknown) => ({
+  contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+})
+
+// Register each collection's index and record resources and accept resources/subscribe.
+// A changed record notifies subscribers of its URI and of its collection's index; a
+// created or deleted record also signals that the resource list changed.
+export function registerResources(server: McpServer, collections: Array<ResourceCollection<any>>) {
+  const subscriptions = new Set<string>()
+  const stopListening: Array<() => void> = []
+
+  const allowed = (collection: ResourceCollection<unknown>, authInfo?: AuthInfo) => {
+    const identity = identityFromAuthInfo(authInfo)
+    return !identity || hasAnyRole(identity, collection.roles)
+  }
+
+  const assertAllowed = (collection: ResourceCollection<unknown>, uri: string, authInfo?: AuthInfo) => {
+    if (!allowed(collection, authInfo)) {
+      throw new McpError(FORBIDDEN, `Forbidden: ${identityFromAuthInfo(authInfo)!.name} may not read ${uri}`)
+    }
+  }
+
+  const indexUri = (collection: ResourceCollection<unknown>) => `nexus://${collection.kind}`
+  const recordUri = (collection: ResourceCollection<unknown>, id: string) => `${indexUri(collection)}/${encodeURIComponent(id)}`
+
+  const collectionOf = (uri: string) =>
+    collections.find((c) => uri === indexUri(c) || uri.startsWith(`${indexUri(c)}/`))
+
+  const notify = (collection: ResourceCollection<unknown>, id: string, listChanged: boolean) => {
+    if (!server.isConnected()) return
+    ;[recordUri(collection, id), indexUri(collection)]
+      .filter((uri) => subscriptions.has(uri))
+      .forEach((uri) => {
+        server.server.sendResourceUpdated({ uri }).catch((error) => console.error(`[MCP] Could not notify ${uri}:`, error))
+      })
+    if (listChanged) server.sendResourceListChanged()
+  }
+
+  collections.forEach((collection) => {
+    const entries = () =>
+      collection.records.all().map((record) => ({ uri: recordUri(collection, collection.idOf(record)), ...collection.summary(record) }))
+
+    server.registerResource(
+      `${collection.kind}-index`,
+      indexUri(collection),
+      { title: collection.title, description: `Index of ${collection.description}`, mimeType: 'application/json' },
+      async (uri, extra) => {
+        assertAllowed(collection, uri.href, extra.authInfo)
+        const list = entries()
+        return jsonContents(uri.href, { count: list.length, records: list })
+      }
+    )
+
+    server.registerResource(
+      collection.kind,
+      new ResourceTemplate(`${indexUri(collection)}/{${collection.variable}}`, {
+        // Every record, for resources/list; callers without the collection's roles see none
+        list: async (extra) => ({
+          resources: allowed(collection, extra.authInfo) ? entries().map((entry) => ({ ...entry, mimeType: 'application/json' })) : [],
+        }),
+        complete: {
+          [collection.variable]: (value) =>
+            collection.records
+              .all()
+              .map(collection.idOf)
+              .filter((id) => id.toLowerCase().startsWith(value.toLowerCase())),
+        },
+      }),
+      { title: collection.title, description: collection.description, mimeType: 'application/json' },
+      async (uri, variables, extra) => {
+        assertAllowed(collection, uri.href, extra.authInfo)
+        const id = decodeURIComponent(String(variables[collection.variable]))
+        const record = collection.records.get(id)
+        if (!record) throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`)
+        return jsonContents(uri.href, collection.view ? collection.view(record) : record)
+      }
+    )
+
+    stopListening.push(
+      collection.records.onChange(({ key, type }) => notify(collection, key, type !== 'updated')),
+      ...(collection.related ?? []).map((repository) => repository.onChange(({ key }) => notify(collection, key, false)))
+    )
+  })
+
+  // Each HTTP session has its own server; stop notifying it once its transport closes
+  server.server.onclose = () => stopListening.forEach((stop) => stop())
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } })
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params
+    const collection = collectionOf(uri)
+    if (!collection) throw new McpError(ErrorCode.InvalidParams, `Unknown resource ${uri}`)
+    assertAllowed(collection, uri, extra.authInfo)
+    subscriptions.add(uri)
+    return {}
+  })
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+}
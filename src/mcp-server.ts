@@ -1,22 +1,89 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { ErrorCode, McpError, type ServerNotification, type ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
 import { z } from 'zod'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { createRepository } from './store.js'
+import { hasAnyRole, identityFromAuthInfo, toolRoles } from './auth.js'
+import { config } from './config.js'
+import { isDate } from './dates.js'
+import { createWorkflow, loadWorkflowDefinitions, WorkflowError, type StepDeadline, type WorkflowDefinition, type WorkflowProgress } from './workflow.js'
+import { createNotifier } from './notifier.js'
+import { createSlaMonitor, slaTracker } from './sla.js'
+import { createConnectors, runConnectors, SYSTEMS, type SystemId, type SystemResult } from './connectors.js'
+import { ASSET_TYPES, assets, assignAsset, checkInAsset, outstandingAssets } from './assets.js'
+import {
+  activeSystems,
+  employees,
+  findDuplicateEmployee,
+  hasValidCheckDigit,
+  missingEmployeeFields,
+  nextEmployeeId,
+  recordAccess,
+  revokeAccess,
+  setEmploymentStatus,
+  type Employee,
+  type EmployeeRecord,
+} from './employees.js'
+import { ImportError, MAX_IMPORT_ROWS, parseOnboardingBatch, validateImportBatch, type EmployeeInput, type ImportRowResult } from './onboarding-import.js'
+import { addDocument, DOCUMENT_TYPES, DocumentError, documentCompliance, documents, integrityProblem, isExpired } from './documents.js'
+import {
+  approvalChain,
+  approvePurchaseOrder,
+  pendingPurchaseOrders,
+  purchaseOrders,
+  PurchaseOrderError,
+  reassignPurchaseOrder,
+  rejectPurchaseOrder,
+  type PurchaseOrder,
+} from './purchase-orders.js'
+import { assignTask, createTask, replaceTeamMember, TaskError, teamMembers, updateTask } from './team.js'
+import {
+  PAYMENT_METHODS,
+  ReceivablesError,
+  cancelInvoice,
+  collections,
+  collectionStatus,
+  createInvoice,
+  creditWarningFor,
+  invoiceDetails,
+  invoiceInput,
+  invoices,
+  issueCreditNote,
+  logCollectionAction,
+  recordPayment,
+  requestReminder,
+  sendInvoice,
+  type Invoice,
+} from './receivables.js'
+import { registerResources, type ResourceCollection } from './mcp-resources.js'
+import {
+  assetSchema,
+  assetSummarySchema,
+  approvalRuleSchema,
+  collectionNoteSchema,
+  creditWarningSchema,
+  documentComplianceSchema,
+  documentSchema,
+  employeeSchema,
+  errorCodeForStatus,
+  invoiceSchema,
+  offboardingStatusSchema,
+  onboardingStatusSchema,
+  stepDeadlineSchema,
+  systemFlagsSchema,
+  systemResultsSchema,
+  taskSchema,
+  toolError,
+  toolOutput,
+  toolResult,
+} from './mcp-output.js'
+import { customers } from './customers.js'
+import { daysBetween } from './ar-aging.js'
 
 // Data Models
-interface Employee {
-  id: string
-  name: string
-  email: string
-  dateOfJoining: string
-  department: string
-  designation: string
-  manager: string
-  workLocation: string
-  contactPhone: string
-  employmentType: string
-  projectAssignment?: string
-}
-
 interface OnboardingRecord {
   employeeId: string
   employee: Employee
@@ -33,6 +100,8 @@ interface OnboardingRecord {
     network: boolean
     projectTools: boolean
   }
+  // Account ids, errors and attempt counts from the provisioning connectors
+  provisioningResults?: Partial<Record<SystemId, SystemResult>>
   compliance: {
     ndaSigned: boolean
     idVerified: boolean
@@ -43,6 +112,8 @@ interface OnboardingRecord {
     benefits: boolean
   }
   auditTrail: Array<{ date: string; action: string; actor: string; details: string }>
+  // Workflow steps whose SLA breach has been escalated
+  slaEscalations?: string[]
 }
 
 interface OffboardingRecord {
@@ -65,6 +136,9 @@ interface OffboardingRecord {
     network: boolean
     projectTools: boolean
   }
+  deprovisioningResults?: Partial<Record<SystemId, SystemResult>>
+  // Systems the employee had access to when offboarding started; only these are revoked
+  systemsToDeprovision?: SystemId[]
   compliance: {
     exitFormSubmitted: boolean
     assetsReturned: boolean
@@ -75,32 +149,303 @@ interface OffboardingRecord {
     benefitsTerminated: boolean
   }
   auditTrail: Array<{ date: string; action: string; actor: string; details: string }>
+  slaEscalations?: string[]
 }
 
-// In-memory storage
-const onboardingRecords: Map<string, OnboardingRecord> = new Map()
-const offboardingRecords: Map<string, OffboardingRecord> = new Map()
+// Persistent storage (in-memory or file journal, see config.ts)
+const onboardingRecords = createRepository<OnboardingRecord>('onboardingRecords', (r) => r.employeeId)
+const offboardingRecords = createRepository<OffboardingRecord>('offboardingRecords', (r) => r.employeeId)
+
+// Every status change goes through these workflows; steps, guards and per-department or
+// employment-type variants live in config/workflows.json
+const workflowDefinitions = loadWorkflowDefinitions(config.workflowsFile)
+
+const onboardingWorkflow = createWorkflow<OnboardingRecord>('onboarding', workflowDefinitions.onboarding, {
+  steps: {
+    hrApproval: (r) => r.approvals.hr.approved,
+    managerApproval: (r) => r.approvals.manager.approved,
+    hrms: (r) => r.systemProvisioning.hrms,
+    email: (r) => r.systemProvisioning.email,
+    network: (r) => r.systemProvisioning.network,
+    projectTools: (r) => r.systemProvisioning.projectTools,
+    // Derived from verified documents, not from what the caller asserts
+    ndaSigned: (r) => documentCompliance(r.employeeId).flags.ndaSigned,
+    idVerified: (r) => documentCompliance(r.employeeId).flags.idVerified,
+    backgroundCheck: (r) => documentCompliance(r.employeeId).flags.backgroundCheck,
+    payroll: (r) => r.financeEnrollment.payroll,
+    benefits: (r) => r.financeEnrollment.benefits,
+  },
+  subject: (r) => ({ employmentType: r.employee.employmentType, department: r.employee.department }),
+  getStatus: (r) => r.status,
+  setStatus: (r, status) => {
+    r.status = status as OnboardingRecord['status']
+  },
+  anchorDate: (r) => r.employee.dateOfJoining,
+})
+
+// A system is done for offboarding when it was revoked or was never provisioned
+const needsNoRevocation = (r: OffboardingRecord, system: SystemId) =>
+  r.systemDeprovisioning[system] || !(r.systemsToDeprovision ?? SYSTEMS).includes(system)
+
+const offboardingWorkflow = createWorkflow<OffboardingRecord>('offboarding', workflowDefinitions.offboarding, {
+  steps: {
+    managerApproval: (r) => r.approvals.manager.approved,
+    hrApproval: (r) => r.approvals.hr.approved,
+    hrms: (r) => needsNoRevocation(r, 'hrms'),
+    email: (r) => needsNoRevocation(r, 'email'),
+    network: (r) => needsNoRevocation(r, 'network'),
+    projectTools: (r) => needsNoRevocation(r, 'projectTools'),
+    exitFormSubmitted: (r) => r.compliance.exitFormSubmitted,
+    // Derived from the asset inventory, not from what the caller asserts
+    assetsReturned: (r) => outstandingAssets(r.employeeId).length === 0,
+    clearanceCertificate: (r) => r.compliance.clearanceCertificate,
+    payrollProcessed: (r) => r.finalPayroll.processed,
+    benefitsTerminated: (r) => r.finalPayroll.benefitsTerminated,
+  },
+  subject: (r) => ({ department: r.department, reason: r.reason }),
+  getStatus: (r) => r.status,
+  setStatus: (r, status) => {
+    r.status = status as OffboardingRecord['status']
+  },
+  anchorDate: (r) => r.lastWorkingDay,
+})
+
+// Step due dates come from the workflow definitions; overdue steps are escalated into the
+// record's audit trail and to HR operations
+const slaMonitor = createSlaMonitor({
+  trackers: [
+    slaTracker({
+      process: 'onboarding',
+      records: onboardingRecords,
+      deadlines: onboardingWorkflow.deadlines,
+      employeeName: (r) => r.employee.name,
+      anchorDate: (r) => r.employee.dateOfJoining,
+    }),
+    slaTracker({
+      process: 'offboarding',
+      records: offboardingRecords,
+      deadlines: offboardingWorkflow.deadlines,
+      employeeName: (r) => r.employeeName,
+      anchorDate: (r) => r.lastWorkingDay,
+    }),
+  ],
+  notifier: createNotifier(),
+  escalationRecipient: config.hrEscalationEmail,
+})
+
+const connectors = createConnectors()
+
+// Systems to send to the connectors: the ones asked for, or with retryFailed only those
+// whose last attempt failed; systems already done are never called again
+const systemsToRun = (
+  requested: SystemId[] | undefined,
+  retryFailed: boolean | undefined,
+  done: Record<SystemId, boolean>,
+  results: Partial<Record<SystemId, SystemResult>> = {}
+) => {
+  const candidates = requested ?? (retryFailed ? SYSTEMS.filter((s) => results[s]?.status === 'failed') : [...SYSTEMS])
+  return [...new Set(candidates)].filter((s) => !done[s])
+}
+
+// Tool result for an action the workflow does not allow in the record's current state
+const workflowRejection = <R>(workflow: { assertAllowed: (record: R, action: string) => void }, record: R, action: string) => {
+  try {
+    workflow.assertAllowed(record, action)
+    return null
+  } catch (error) {
+    if (!(error instanceof WorkflowError)) throw error
+    return toolError('INVALID_TRANSITION', error.message)
+  }
+}
+
+// Date a process's SLA deadlines are counted from. Checked up front: deadlines cannot be
+// computed from an unparseable date, and the record would drop out of SLA tracking.
+const anchorDate = (description: string) => z.string().refine(isDate, 'must be a valid YYYY-MM-DD date').describe(description)
+
+// Actor recorded in audit trails: the authenticated caller when the request came in over
+// HTTP with a bearer token, otherwise the name supplied in the tool arguments (stdio)
+const resolveActor = (extra: { authInfo?: AuthInfo }, supplied?: string) =>
+  identityFromAuthInfo(extra.authInfo)?.name ?? supplied
+
+// Reports each system of a connector run as it finishes, before the tool returns: as
+// notifications/progress when the caller sent a progressToken, otherwise as a log
+// message. Over HTTP both stream on the call's SSE response.
+const connectorProgress = (extra: RequestHandlerExtra<ServerRequest, ServerNotification>, subject: string, total: number) => {
+  const progressToken = extra._meta?.progressToken
+  let progress = 0
+  return (system: SystemId, result: SystemResult) => {
+    progress++
+    const message = `${subject}: ${system} ${result.status}${result.error ? ` (${result.error})` : ''}`
+    const notification: ServerNotification =
+      progressToken !== undefined
+        ? { method: 'notifications/progress', params: { progressToken, progress, total, message } }
+        : { method: 'notifications/message', params: { level: result.status === 'failed' ? 'warning' : 'info', logger: 'connectors', data: message } }
+    extra.sendNotification(notification).catch((error) => console.error('[MCP] Could not report progress:', error))
+  }
+}
+
+const missingActor = (field: string) =>
+  toolError('VALIDATION_FAILED', `${field} is required when the request is not authenticated`)
+
+// An authenticated approver must actually hold the role they approve as
+const approverRoleMismatch = (extra: { authInfo?: AuthInfo }, approverRole: 'hr' | 'manager') => {
+  const identity = identityFromAuthInfo(extra.authInfo)
+  if (!identity || hasAnyRole(identity, [approverRole === 'hr' ? 'HR' : 'Manager'])) return null
+  return toolError('FORBIDDEN', `${identity.name} cannot approve as ${approverRole}`)
+}
 
-// Helper function to generate IDs
-function generateEmployeeId(): string {
-  return `EMP-${Date.now()}-${Math.floor(Math.random() * 1000)}`
+// Tool result for a PO, task or invoice operation its module refused
+const serviceFailure = (error: unknown) => {
+  if (!(error instanceof PurchaseOrderError || error instanceof TaskError || error instanceof ReceivablesError)) throw error
+  return toolError(errorCodeForStatus(error.status), error.message)
 }
 
-// Create MCP Server
-const server = new McpServer({
-  name: 'nexus-onboarding-offboarding',
-  version: '1.0.0',
+// Status views returned by the status tools, the nexus:// record resources and the prompts
+const onboardingStatus = (record: OnboardingRecord) => ({
+  employeeId: record.employeeId,
+  employee: record.employee,
+  status: record.status,
+  approvals: record.approvals,
+  systemProvisioning: record.systemProvisioning,
+  provisioningResults: record.provisioningResults ?? {},
+  compliance: record.compliance,
+  financeEnrollment: record.financeEnrollment,
+  workflow: onboardingWorkflow.progress(record),
+  deadlines: onboardingWorkflow.deadlines(record),
+  auditTrail: record.auditTrail,
+})
+
+const offboardingStatus = (record: OffboardingRecord) => ({
+  employeeId: record.employeeId,
+  employeeName: record.employeeName,
+  status: record.status,
+  lastWorkingDay: record.lastWorkingDay,
+  approvals: record.approvals,
+  systemDeprovisioning: record.systemDeprovisioning,
+  deprovisioningResults: record.deprovisioningResults ?? {},
+  compliance: record.compliance,
+  finalPayroll: record.finalPayroll,
+  workflow: offboardingWorkflow.progress(record),
+  deadlines: offboardingWorkflow.deadlines(record),
+  auditTrail: record.auditTrail,
 })
 
-// Register Tools
+const employeeView = (record: EmployeeRecord) => {
+  const { systems, ...employee } = record
+  return { employee, activeSystems: activeSystems(record), systemAccess: systems }
+}
+
+const invoiceView = (invoice: Invoice) => ({ ...invoiceDetails(invoice.id), collection: collections.get(invoice.id) ?? null })
+
+// Create the onboarding record and add the employee to the registry
+function startOnboarding(input: EmployeeInput, initiatedBy: string, source?: string): OnboardingRecord {
+  const employeeId = nextEmployeeId()
+  const employee: Employee = {
+    id: employeeId,
+    name: input.name,
+    email: input.email,
+    dateOfJoining: input.dateOfJoining,
+    department: input.department,
+    designation: input.designation,
+    manager: input.manager,
+    workLocation: input.workLocation,
+    contactPhone: input.contactPhone,
+    employmentType: input.employmentType,
+    projectAssignment: input.projectAssignment,
+  }
+
+  const record: OnboardingRecord = {
+    employeeId,
+    employee,
+    status: onboardingWorkflow.initial as OnboardingRecord['status'],
+    initiatedBy,
+    initiatedDate: new Date().toISOString(),
+    approvals: {
+      hr: { approved: false },
+      manager: { approved: false },
+    },
+    systemProvisioning: {
+      hrms: false,
+      email: false,
+      network: false,
+      projectTools: false,
+    },
+    compliance: {
+      ndaSigned: false,
+      idVerified: false,
+      backgroundCheck: false,
+    },
+    financeEnrollment: {
+      payroll: false,
+      benefits: false,
+    },
+    auditTrail: [
+      {
+        date: new Date().toISOString(),
+        action: 'Onboarding Initiated',
+        actor: initiatedBy,
+        details: `Onboarding started for ${employee.name}${source ? ` (${source})` : ''}`,
+      },
+    ],
+  }
+
+  onboardingRecords.save(record)
+  employees.save({
+    ...employee,
+    employmentStatus: 'Onboarding',
+    systems: {},
+    createdAt: record.initiatedDate,
+    updatedAt: record.initiatedDate,
+  })
+  return record
+}
 
-server.tool(
-  'initiate_onboarding',
-  'Start the onboarding process for a new employee. Creates employee record and initiates workflow.',
-  {
+// Validate a CSV/JSON batch and start onboarding for each valid row; with dryRun nothing
+// is created. Shared by the import_onboarding_batch tool and POST /hr/onboarding/import.
+export function importOnboarding(
+  input: { csv?: string; rows?: Array<Record<string, unknown>> },
+  initiatedBy: string,
+  dryRun = false
+) {
+  const { rows, ignoredColumns } = parseOnboardingBatch(input)
+  const results: ImportRowResult[] = validateImportBatch(rows).map(({ row, employee, errors }) => {
+    const identity = { name: rows[row - 1].name as string | undefined, email: rows[row - 1].email as string | undefined }
+    const duplicate = employee && findDuplicateEmployee(employee)
+    if (duplicate) errors.push(`duplicates ${duplicate.employee.id} (${duplicate.employee.name}) by ${duplicate.matchedOn}`)
+    if (!employee || duplicate) return { row, status: 'invalid', ...identity, errors }
+    if (dryRun) return { row, status: 'valid', ...identity, errors }
+    const record = startOnboarding(employee, initiatedBy, 'bulk import')
+    return { row, status: 'created', employeeId: record.employeeId, ...identity, errors }
+  })
+
+  const count = (status: ImportRowResult['status']) => results.filter((r) => r.status === status).length
+  return {
+    dryRun,
+    summary: { total: results.length, valid: results.length - count('invalid'), invalid: count('invalid'), created: count('created') },
+    ignoredColumns,
+    results,
+  }
+}
+
+// One MCP server with every tool, resource and prompt registered. The stdio process has one;
+// over HTTP each session (or, stateless, each request) gets its own, as a server talks to one
+// transport at a time.
+export function createServer() {
+  const server = new McpServer(
+    {
+      name: 'nexus-onboarding-offboarding',
+      version: '1.0.0',
+    },
+    { capabilities: { logging: {} } }
+  )
+
+  // Register Tools
+
+  // What initiate_onboarding collects about a new hire; the onboard_new_hire prompt asks for the same fields
+  const newHireFields = {
     name: z.string().describe('Employee full name'),
     email: z.string().email().describe('Employee email address'),
-    dateOfJoining: z.string().describe('Date of joining (YYYY-MM-DD)'),
+    dateOfJoining: anchorDate('Date of joining (YYYY-MM-DD)'),
     department: z.string().describe('Department/Business Unit'),
     designation: z.string().describe('Job title/role'),
     manager: z.string().describe('Manager/Supervisor name'),
@@ -108,1044 +453,2284 @@ server.tool(
     contactPhone: z.string().describe('Contact phone number'),
     employmentType: z.string().describe('Employment type (Full-time, Contractor, etc.)'),
     projectAssignment: z.string().optional().describe('Project assignment (optional)'),
-    initiatedBy: z.string().describe('HR or Hiring Manager initiating the process'),
-  },
-  async (args) => {
-    const employeeId = generateEmployeeId()
-    const employee: Employee = {
-      id: employeeId,
-      name: args.name,
-      email: args.email,
-      dateOfJoining: args.dateOfJoining,
-      department: args.department,
-      designation: args.designation,
-      manager: args.manager,
-      workLocation: args.workLocation,
-      contactPhone: args.contactPhone,
-      employmentType: args.employmentType,
-      projectAssignment: args.projectAssignment,
-    }
+  }
 
-    const record: OnboardingRecord = {
-      employeeId,
-      employee,
-      status: 'Initiated',
-      initiatedBy: args.initiatedBy,
-      initiatedDate: new Date().toISOString(),
-      approvals: {
-        hr: { approved: false },
-        manager: { approved: false },
-      },
-      systemProvisioning: {
-        hrms: false,
-        email: false,
-        network: false,
-        projectTools: false,
+  server.registerTool(
+    'initiate_onboarding',
+    {
+      description: 'Start the onboarding process for a new employee. Creates employee record and initiates workflow.',
+      inputSchema: {
+        ...newHireFields,
+        initiatedBy: z.string().optional().describe('HR or Hiring Manager initiating the process (ignored when authenticated)'),
+        ifExists: z
+          .enum(['conflict', 'return'])
+          .default('conflict')
+          .describe('When the employee is already registered (same email, or same name and joining date): report a conflict, or return the existing onboarding record'),
       },
-      compliance: {
-        ndaSigned: false,
-        idVerified: false,
-        backgroundCheck: false,
-      },
-      financeEnrollment: {
-        payroll: false,
-        benefits: false,
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        status: z.string(),
+        duplicate: z.boolean().describe('True when ifExists=return matched an employee already being onboarded'),
+        employee: employeeSchema,
+        nextSteps: z.array(z.string()).optional(),
+        requiredSteps: z.array(z.string()).optional(),
+        existingEmployeeId: z.string().optional(),
+        matchedOn: z.string().optional(),
+        employmentStatus: z.string().optional(),
+        onboardingStatus: z.string().nullable().optional(),
+      }),
+    },
+    async (args, extra) => {
+      const initiatedBy = resolveActor(extra, args.initiatedBy)
+      if (!initiatedBy) return missingActor('initiatedBy')
+
+      const duplicate = findDuplicateEmployee(args)
+      if (duplicate) {
+        const existing = onboardingRecords.get(duplicate.employee.id)
+        const conflict = {
+          existingEmployeeId: duplicate.employee.id,
+          matchedOn: duplicate.matchedOn,
+          employmentStatus: duplicate.employee.employmentStatus,
+          onboardingStatus: existing?.status ?? null,
+        }
+        if (args.ifExists === 'return' && existing) {
+          return toolResult({
+            duplicate: true,
+            employeeId: existing.employeeId,
+            status: existing.status,
+            message: `${existing.employee.name} is already being onboarded as ${existing.employeeId}`,
+            ...conflict,
+            employee: existing.employee,
+          })
+        }
+        return toolError(
+          'CONFLICT',
+          `Employee already registered as ${duplicate.employee.id} (${duplicate.employee.name}), matched on ${duplicate.matchedOn}`,
+          conflict
+        )
+      }
+
+      const record = startOnboarding(args, initiatedBy)
+      const { employeeId, employee } = record
+
+      return toolResult({
+        duplicate: false,
+        employeeId,
+        status: record.status,
+        message: `Onboarding process initiated for ${employee.name}`,
+        nextSteps: ['HR Approval', 'Manager Approval'],
+        requiredSteps: onboardingWorkflow.requiredSteps(record),
+        employee,
+      })
+    }
+  )
+
+  server.registerTool(
+    'validate_onboarding_data',
+    {
+      description: 'Validate that all required employee data fields are complete and correct.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID to validate'),
       },
-      auditTrail: [
-        {
-          date: new Date().toISOString(),
-          action: 'Onboarding Initiated',
-          actor: args.initiatedBy,
-          details: `Onboarding started for ${employee.name}`,
-        },
-      ],
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        isValid: z.boolean(),
+        missingFields: z.array(z.string()),
+      }),
+    },
+    async (args) => {
+      const employeeId = args.employeeId
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const missingFields = missingEmployeeFields(record.employee)
+
+      const isValid = missingFields.length === 0
+
+      return toolResult({
+        employeeId,
+        isValid,
+        missingFields,
+        message: isValid ? 'All required fields are complete' : 'Missing required fields',
+      })
     }
+  )
+
+  server.registerTool(
+    'import_onboarding_batch',
+    {
+      description: `Start onboarding for a cohort (interns, an acquisition) from CSV text or JSON rows with the initiate_onboarding fields. Each row is validated like validate_onboarding_data; valid rows are created and a per-row report is returned. Use dryRun to validate only. Up to ${MAX_IMPORT_ROWS} rows.`,
+      inputSchema: {
+        csv: z.string().optional().describe('CSV with a header row (name, email, dateOfJoining, department, designation, manager, workLocation, contactPhone, employmentType, projectAssignment)'),
+        rows: z.array(z.record(z.unknown())).optional().describe('Rows as objects with the same fields, instead of csv'),
+        dryRun: z.boolean().default(false).describe('Validate without creating anything'),
+        initiatedBy: z.string().optional().describe('HR person importing the batch (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        dryRun: z.boolean(),
+        summary: z.object({ total: z.number(), valid: z.number(), invalid: z.number(), created: z.number() }),
+        ignoredColumns: z.array(z.string()),
+        results: z.array(
+          z.object({
+            row: z.number(),
+            status: z.enum(['created', 'valid', 'invalid']),
+            employeeId: z.string().optional(),
+            name: z.string().optional(),
+            email: z.string().optional(),
+            errors: z.array(z.string()),
+          })
+        ),
+      }),
+    },
+    async (args, extra) => {
+      const initiatedBy = resolveActor(extra, args.initiatedBy)
+      if (!initiatedBy) return missingActor('initiatedBy')
+
+      let report
+      try {
+        report = importOnboarding({ csv: args.csv, rows: args.rows }, initiatedBy, args.dryRun)
+      } catch (error) {
+        if (!(error instanceof ImportError)) throw error
+        return toolError('VALIDATION_FAILED', error.message)
+      }
 
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            status: 'Initiated',
-            message: `Onboarding process initiated for ${employee.name}`,
-            nextSteps: ['HR Approval', 'Manager Approval'],
-            employee,
-          }, null, 2),
-        },
-      ],
+      return toolResult({
+        ...report,
+        message: report.dryRun
+          ? `${report.summary.valid} of ${report.summary.total} rows are valid; nothing was created`
+          : `Onboarding initiated for ${report.summary.created} of ${report.summary.total} rows`,
+      })
     }
-  }
-)
+  )
+
+  server.registerTool(
+    'approve_onboarding',
+    {
+      description: 'HR or Manager approval of onboarding request.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        approverRole: z.enum(['hr', 'manager']).describe('Role of approver'),
+        approverName: z.string().optional().describe('Name of approver (ignored when authenticated)'),
+        approved: z.boolean().describe('Approval decision'),
+        comments: z.string().optional().describe('Approval comments'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        approverRole: z.enum(['hr', 'manager']),
+        approved: z.boolean(),
+        status: z.string(),
+        nextSteps: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const approverRole = args.approverRole
+      const approved = args.approved
+      const approverName = resolveActor(extra, args.approverName)
+      const comments = args.comments
+
+      if (!approverName) return missingActor('approverName')
+      const mismatch = approverRoleMismatch(extra, approverRole)
+      if (mismatch) return mismatch
+      const rejected = workflowRejection(onboardingWorkflow, record, 'approve')
+      if (rejected) return rejected
+
+      record.approvals[approverRole] = {
+        approved,
+        approver: approverName,
+        date: new Date().toISOString(),
+      }
 
-server.tool(
-  'validate_onboarding_data',
-  'Validate that all required employee data fields are complete and correct.',
-  {
-    employeeId: z.string().describe('Employee ID to validate'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = onboardingRecords.get(employeeId)
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: `${approverRole.toUpperCase()} ${approved ? 'Approved' : 'Rejected'}`,
+        actor: approverName,
+        details: comments || `${approverRole} ${approved ? 'approved' : 'rejected'} onboarding`,
+      })
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
-        ],
-      }
-    }
+      // Approved once every approval step is done, otherwise pending the rest
+      onboardingWorkflow.advance(record, 'approve')
 
-    const employee = record.employee
-    const missingFields: string[] = []
-
-    if (!employee.name) missingFields.push('name')
-    if (!employee.email) missingFields.push('email')
-    if (!employee.dateOfJoining) missingFields.push('dateOfJoining')
-    if (!employee.department) missingFields.push('department')
-    if (!employee.designation) missingFields.push('designation')
-    if (!employee.manager) missingFields.push('manager')
-    if (!employee.workLocation) missingFields.push('workLocation')
-    if (!employee.contactPhone) missingFields.push('contactPhone')
-    if (!employee.employmentType) missingFields.push('employmentType')
-
-    const isValid = missingFields.length === 0
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            isValid,
-            missingFields,
-            message: isValid ? 'All required fields are complete' : 'Missing required fields',
-          }, null, 2),
-        },
-      ],
+      onboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        approverRole,
+        approved,
+        status: record.status,
+        message: `${approverRole.toUpperCase()} ${approved ? 'approved' : 'rejected'} onboarding for ${record.employee.name}`,
+        nextSteps: record.status === 'Approved' ? ['System Provisioning', 'Compliance Checks', 'Finance Enrollment'] : ['Pending other approvals'],
+      })
     }
-  }
-)
-
-server.tool(
-  'approve_onboarding',
-  'HR or Manager approval of onboarding request.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    approverRole: z.enum(['hr', 'manager']).describe('Role of approver'),
-    approverName: z.string().describe('Name of approver'),
-    approved: z.boolean().describe('Approval decision'),
-    comments: z.string().optional().describe('Approval comments'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = onboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'provision_systems',
+    {
+      description: 'Trigger IT system provisioning (email, network, project management tools).',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        systems: z.array(z.enum(SYSTEMS)).optional().describe('Systems to provision (default: all not yet provisioned)'),
+        retryFailed: z.boolean().optional().describe('When systems is omitted, retry only the systems whose last attempt failed'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        provisionedSystems: z.array(z.string()),
+        failedSystems: z.array(z.string()),
+        results: systemResultsSchema,
+        systemStatus: systemFlagsSchema,
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const rejected = workflowRejection(onboardingWorkflow, record, 'provision')
+      if (rejected) return rejected
+
+      const systems = systemsToRun(args.systems, args.retryFailed, record.systemProvisioning, record.provisioningResults)
+      const results = await runConnectors(connectors, 'provision', {
+        employeeId,
+        name: record.employee.name,
+        email: record.employee.email,
+        department: record.employee.department,
+        designation: record.employee.designation,
+      }, systems, record.provisioningResults, connectorProgress(extra, `Provisioning ${record.employee.name}`, systems.length))
+
+      record.provisioningResults = { ...record.provisioningResults, ...results }
+      const provisioned = systems.filter((s) => results[s]?.status === 'provisioned')
+      const failed = systems.filter((s) => results[s]?.status === 'failed')
+      provisioned.forEach((system) => {
+        record.systemProvisioning[system] = true
+      })
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
-        ],
+      const registered = employees.get(employeeId)
+      if (registered) {
+        provisioned.forEach((system) => recordAccess(registered, system, results[system]?.accountId))
+        registered.updatedAt = new Date().toISOString()
+        employees.save(registered)
       }
-    }
 
-    const approverRole = args.approverRole
-    const approved = args.approved
-    const approverName = args.approverName
-    const comments = args.comments
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: failed.length > 0 ? 'Systems Partially Provisioned' : 'Systems Provisioned',
+        actor: resolveActor(extra) ?? 'IT System',
+        details: `Provisioned: ${provisioned.join(', ') || 'none'}${failed.length > 0 ? `; Failed: ${failed.map((s) => `${s} (${results[s]?.error})`).join(', ')}` : ''}`,
+      })
 
-    record.approvals[approverRole] = {
-      approved,
-      approver: approverName,
-      date: new Date().toISOString(),
-    }
+      onboardingWorkflow.advance(record, 'provision')
+      onboardingRecords.save(record)
 
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: `${approverRole.toUpperCase()} ${approved ? 'Approved' : 'Rejected'}`,
-      actor: approverName,
-      details: comments || `${approverRole} ${approved ? 'approved' : 'rejected'} onboarding`,
-    })
-
-    // Update status if both approved
-    if (record.approvals.hr.approved && record.approvals.manager.approved) {
-      record.status = 'Approved'
-    } else if (!approved) {
-      record.status = 'Pending Approval'
-    }
+      const result = {
+        employeeId,
+        provisionedSystems: provisioned,
+        failedSystems: failed,
+        results,
+        systemStatus: record.systemProvisioning,
+      }
+      if (failed.length > 0) {
+        return toolError(
+          'UPSTREAM_FAILED',
+          `${failed.length} system(s) failed for ${record.employee.name}; call provision_systems with retryFailed=true to retry them`,
+          result
+        )
+      }
 
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            approverRole,
-            approved,
-            status: record.status,
-            message: `${approverRole.toUpperCase()} ${approved ? 'approved' : 'rejected'} onboarding for ${record.employee.name}`,
-            nextSteps: record.status === 'Approved' ? ['System Provisioning', 'Compliance Checks', 'Finance Enrollment'] : ['Pending other approvals'],
-          }, null, 2),
-        },
-      ],
+      return toolResult({
+        ...result,
+        message: systems.length === 0 ? `Nothing to provision for ${record.employee.name}` : `Systems provisioned for ${record.employee.name}`,
+      })
     }
-  }
-)
-
-server.tool(
-  'provision_systems',
-  'Trigger IT system provisioning (email, network, project management tools).',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    systems: z.array(z.enum(['hrms', 'email', 'network', 'projectTools'])).describe('Systems to provision'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const systems = args.systems
-    const record = onboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'enroll_benefits',
+    {
+      description: 'Finance integration for payroll and benefits enrollment.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        enrollPayroll: z.boolean().describe('Enroll in payroll'),
+        enrollBenefits: z.boolean().describe('Enroll in benefits'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        financeEnrollment: z.object({ payroll: z.boolean(), benefits: z.boolean() }),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const enrollPayroll = args.enrollPayroll
+      const enrollBenefits = args.enrollBenefits
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const rejected = workflowRejection(onboardingWorkflow, record, 'enroll')
+      if (rejected) return rejected
+
+      if (enrollPayroll) record.financeEnrollment.payroll = true
+      if (enrollBenefits) record.financeEnrollment.benefits = true
+
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Finance Enrollment',
+        actor: resolveActor(extra) ?? 'Finance System',
+        details: `Payroll: ${enrollPayroll}, Benefits: ${enrollBenefits}`,
+      })
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
-        ],
-      }
+      onboardingWorkflow.advance(record, 'enroll')
+      onboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        financeEnrollment: record.financeEnrollment,
+        message: `Finance enrollment completed for ${record.employee.name}`,
+      })
     }
+  )
+
+  server.registerTool(
+    'check_onboarding_compliance',
+    {
+      description: 'Verify mandatory documentation (NDA, ID verification, background check). Each check is computed from the employee\'s verified documents; add them with upload_document and verify_document.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        ...documentComplianceSchema,
+        allCompliant: z.boolean(),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const rejected = workflowRejection(onboardingWorkflow, record, 'compliance')
+      if (rejected) return rejected
+
+      const { flags, missing } = documentCompliance(employeeId)
+      record.compliance = flags
+      // Checks the employee's variant skips (e.g. background checks for interns) are not missing
+      const required = onboardingWorkflow.requiredSteps(record)
+      const missingDocuments = missing.filter((m) => required.includes(m.check))
+
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Compliance Check',
+        actor: resolveActor(extra) ?? 'Compliance System',
+        details: `NDA: ${record.compliance.ndaSigned}, ID: ${record.compliance.idVerified}, Background: ${record.compliance.backgroundCheck}`,
+      })
 
-    systems.forEach((system) => {
-      if (system in record.systemProvisioning) {
-        record.systemProvisioning[system as keyof typeof record.systemProvisioning] = true
-      }
-    })
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Systems Provisioned',
-      actor: 'IT System',
-      details: `Provisioned: ${systems.join(', ')}`,
-    })
-
-    record.status = 'In Progress'
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            provisionedSystems: systems,
-            systemStatus: record.systemProvisioning,
-            message: `Systems provisioned for ${record.employee.name}`,
-          }, null, 2),
-        },
-      ],
+      const allCompliant = onboardingWorkflow.progress(record).phases.compliance
+
+      onboardingWorkflow.advance(record, 'compliance')
+      onboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        compliance: record.compliance,
+        missingDocuments,
+        allCompliant,
+        message: allCompliant ? 'All compliance checks passed' : 'Compliance checks incomplete',
+      })
     }
-  }
-)
-
-server.tool(
-  'enroll_benefits',
-  'Finance integration for payroll and benefits enrollment.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    enrollPayroll: z.boolean().describe('Enroll in payroll'),
-    enrollBenefits: z.boolean().describe('Enroll in benefits'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const enrollPayroll = args.enrollPayroll
-    const enrollBenefits = args.enrollBenefits
-    const record = onboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'complete_onboarding',
+    {
+      description: 'Finalize onboarding process and send completion notifications.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        completedBy: z.string().optional().describe('HR person completing the process (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        status: z.string(),
+        completionDate: z.string(),
+        notifications: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const completedBy = resolveActor(extra, args.completedBy)
+      if (!completedBy) return missingActor('completedBy')
+      const record = onboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
+
+      const rejected = workflowRejection(onboardingWorkflow, record, 'complete')
+      if (rejected) return rejected
+
+      // Only the steps the employee's workflow variant requires are checked
+      try {
+        onboardingWorkflow.advance(record, 'complete')
+      } catch (error) {
+        if (!(error instanceof WorkflowError)) throw error
+        return toolError('INVALID_TRANSITION', 'Cannot complete onboarding - requirements not met', {
+          checklist: onboardingWorkflow.progress(record).phases,
+          pendingSteps: error.pendingSteps,
+        })
+      }
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Onboarding Completed',
+        actor: completedBy,
+        details: `Onboarding process completed for ${record.employee.name}`,
+      })
+
+      onboardingRecords.save(record)
+      const onboarded = employees.get(employeeId)
+      if (onboarded) setEmploymentStatus(onboarded, 'Active')
+
+      return toolResult({
+        employeeId,
+        status: 'Completed',
+        message: `Onboarding completed successfully for ${record.employee.name}`,
+        completionDate: new Date().toISOString(),
+        notifications: [
+          `Email sent to ${record.employee.email}`,
+          `Manager ${record.employee.manager} notified`,
+          'HR team notified',
         ],
-      }
+      })
     }
+  )
+
+  server.registerTool(
+    'initiate_offboarding',
+    {
+      description: 'Start the offboarding process for an existing employee (resignation, termination, contract end). Name, department and manager are taken from the employee record.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        employeeName: z.string().optional().describe('Employee name; when given it must match the employee record'),
+        lastWorkingDay: anchorDate('Last working day (YYYY-MM-DD)'),
+        department: z.string().optional().describe('Department (defaults to the employee record)'),
+        reason: z.string().describe('Reason for offboarding'),
+        manager: z.string().optional().describe('Manager name (defaults to the employee record)'),
+        initiatedBy: z.string().optional().describe('HR or Manager initiating (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        status: z.string(),
+        lastWorkingDay: z.string(),
+        department: z.string(),
+        manager: z.string(),
+        systemsToDeprovision: z.array(z.string()),
+        nextSteps: z.array(z.string()),
+        requiredSteps: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const initiatedBy = resolveActor(extra, args.initiatedBy)
+      if (!initiatedBy) return missingActor('initiatedBy')
+
+      const employee = employees.get(employeeId)
+      if (!employee) return toolError('NOT_FOUND', `Employee ${employeeId} not found`)
+      if (employee.employmentStatus === 'Offboarding' || employee.employmentStatus === 'Exited') {
+        return toolError(
+          'INVALID_TRANSITION',
+          `Employee ${employeeId} is already ${employee.employmentStatus === 'Exited' ? 'offboarded' : 'being offboarded'}`
+        )
+      }
+      if (args.employeeName && args.employeeName.trim().toLowerCase() !== employee.name.toLowerCase()) {
+        return toolError('VALIDATION_FAILED', `Employee ${employeeId} is ${employee.name}, not ${args.employeeName}`)
+      }
 
-    if (enrollPayroll) record.financeEnrollment.payroll = true
-    if (enrollBenefits) record.financeEnrollment.benefits = true
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Finance Enrollment',
-      actor: 'Finance System',
-      details: `Payroll: ${enrollPayroll}, Benefits: ${enrollBenefits}`,
-    })
-
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            financeEnrollment: record.financeEnrollment,
-            message: `Finance enrollment completed for ${record.employee.name}`,
-          }, null, 2),
+      const systemsToDeprovision = activeSystems(employee)
+      const record: OffboardingRecord = {
+        employeeId,
+        employeeName: employee.name,
+        lastWorkingDay: args.lastWorkingDay,
+        department: args.department || employee.department,
+        reason: args.reason,
+        manager: args.manager || employee.manager,
+        status: offboardingWorkflow.initial as OffboardingRecord['status'],
+        initiatedBy,
+        initiatedDate: new Date().toISOString(),
+        approvals: {
+          manager: { approved: false },
+          hr: { approved: false },
         },
-      ],
-    }
-  }
-)
-
-server.tool(
-  'check_onboarding_compliance',
-  'Verify mandatory documentation (NDA, ID verification, background check).',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    ndaSigned: z.boolean().optional().describe('NDA signed'),
-    idVerified: z.boolean().optional().describe('ID verified'),
-    backgroundCheck: z.boolean().optional().describe('Background check completed'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = onboardingRecords.get(employeeId)
-
-    if (!record) {
-      return {
-        content: [
+        systemDeprovisioning: {
+          hrms: false,
+          email: false,
+          network: false,
+          projectTools: false,
+        },
+        compliance: {
+          exitFormSubmitted: false,
+          assetsReturned: false,
+          clearanceCertificate: false,
+        },
+        finalPayroll: {
+          processed: false,
+          benefitsTerminated: false,
+        },
+        systemsToDeprovision,
+        auditTrail: [
           {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
+            date: new Date().toISOString(),
+            action: 'Offboarding Initiated',
+            actor: initiatedBy,
+            details: `Offboarding started for ${employee.name}. Reason: ${args.reason}. Systems to revoke: ${systemsToDeprovision.join(', ') || 'none'}`,
           },
         ],
       }
+
+      offboardingRecords.save(record)
+      setEmploymentStatus(employee, 'Offboarding')
+
+      return toolResult({
+        employeeId,
+        status: record.status,
+        message: `Offboarding process initiated for ${employee.name}`,
+        lastWorkingDay: args.lastWorkingDay,
+        department: record.department,
+        manager: record.manager,
+        systemsToDeprovision,
+        nextSteps: ['Manager Approval', 'HR Approval'],
+        requiredSteps: offboardingWorkflow.requiredSteps(record),
+      })
     }
+  )
+
+  server.registerTool(
+    'approve_offboarding',
+    {
+      description: 'Manager or HR approval of offboarding request.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        approverRole: z.enum(['manager', 'hr']).describe('Role of approver'),
+        approverName: z.string().optional().describe('Name of approver (ignored when authenticated)'),
+        approved: z.boolean().describe('Approval decision'),
+        comments: z.string().optional().describe('Approval comments'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        approverRole: z.enum(['manager', 'hr']),
+        approved: z.boolean(),
+        status: z.string(),
+        nextSteps: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = offboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      const approverRole = args.approverRole
+      const approved = args.approved
+      const approverName = resolveActor(extra, args.approverName)
+      const comments = args.comments
+
+      if (!approverName) return missingActor('approverName')
+      const mismatch = approverRoleMismatch(extra, approverRole)
+      if (mismatch) return mismatch
+      const rejected = workflowRejection(offboardingWorkflow, record, 'approve')
+      if (rejected) return rejected
+
+      record.approvals[approverRole] = {
+        approved,
+        approver: approverName,
+        date: new Date().toISOString(),
+      }
 
-    if (args.ndaSigned !== undefined) record.compliance.ndaSigned = args.ndaSigned
-    if (args.idVerified !== undefined) record.compliance.idVerified = args.idVerified
-    if (args.backgroundCheck !== undefined) record.compliance.backgroundCheck = args.backgroundCheck
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Compliance Check',
-      actor: 'Compliance System',
-      details: `NDA: ${record.compliance.ndaSigned}, ID: ${record.compliance.idVerified}, Background: ${record.compliance.backgroundCheck}`,
-    })
-
-    const allCompliant = record.compliance.ndaSigned && record.compliance.idVerified && record.compliance.backgroundCheck
-
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            compliance: record.compliance,
-            allCompliant,
-            message: allCompliant ? 'All compliance checks passed' : 'Compliance checks incomplete',
-          }, null, 2),
-        },
-      ],
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: `${approverRole.toUpperCase()} ${approved ? 'Approved' : 'Rejected'}`,
+        actor: approverName,
+        details: comments || `${approverRole} ${approved ? 'approved' : 'rejected'} offboarding`,
+      })
+
+      offboardingWorkflow.advance(record, 'approve')
+
+      offboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        approverRole,
+        approved,
+        status: record.status,
+        message: `${approverRole.toUpperCase()} ${approved ? 'approved' : 'rejected'} offboarding for ${record.employeeName}`,
+        nextSteps: record.status === 'Approved' ? ['System Deprovisioning', 'Compliance Checks', 'Final Payroll'] : ['Pending other approvals'],
+      })
     }
-  }
-)
-
-server.tool(
-  'complete_onboarding',
-  'Finalize onboarding process and send completion notifications.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    completedBy: z.string().describe('HR person completing the process'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const completedBy = args.completedBy
-    const record = onboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'deprovision_systems',
+    {
+      description: 'Deactivate user accounts and revoke access rights.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        systems: z.array(z.enum(SYSTEMS)).optional().describe('Systems to deprovision (default: all not yet deprovisioned)'),
+        retryFailed: z.boolean().optional().describe('When systems is omitted, retry only the systems whose last attempt failed'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        deprovisionedSystems: z.array(z.string()),
+        failedSystems: z.array(z.string()),
+        notProvisioned: z.array(z.string()).describe('Requested systems the employee never had'),
+        results: systemResultsSchema,
+        systemStatus: systemFlagsSchema,
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = offboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      const rejected = workflowRejection(offboardingWorkflow, record, 'deprovision')
+      if (rejected) return rejected
+
+      const revocable = record.systemsToDeprovision ?? [...SYSTEMS]
+      const notProvisioned = (args.systems ?? []).filter((s) => !revocable.includes(s))
+      const systems = systemsToRun(args.systems, args.retryFailed, record.systemDeprovisioning, record.deprovisioningResults)
+        .filter((s) => revocable.includes(s))
+      const results = await runConnectors(connectors, 'deprovision', {
+        employeeId,
+        name: record.employeeName,
+        department: record.department,
+      }, systems, record.deprovisioningResults, connectorProgress(extra, `Deprovisioning ${record.employeeName}`, systems.length))
+
+      record.deprovisioningResults = { ...record.deprovisioningResults, ...results }
+      const deprovisioned = systems.filter((s) => results[s]?.status === 'deprovisioned')
+      const failed = systems.filter((s) => results[s]?.status === 'failed')
+      deprovisioned.forEach((system) => {
+        record.systemDeprovisioning[system] = true
+      })
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
-        ],
+      const registered = employees.get(employeeId)
+      if (registered) {
+        deprovisioned.forEach((system) => revokeAccess(registered, system))
+        registered.updatedAt = new Date().toISOString()
+        employees.save(registered)
       }
-    }
 
-    // Check if all requirements are met
-    const allSystemsProvisioned = Object.values(record.systemProvisioning).every(v => v)
-    const allCompliant = Object.values(record.compliance).every(v => v)
-    const financeEnrolled = Object.values(record.financeEnrollment).every(v => v)
-    const allApproved = record.approvals.hr.approved && record.approvals.manager.approved
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: failed.length > 0 ? 'Systems Partially Deprovisioned' : 'Systems Deprovisioned',
+        actor: resolveActor(extra) ?? 'IT System',
+        details: `Deprovisioned: ${deprovisioned.join(', ') || 'none'}${failed.length > 0 ? `; Failed: ${failed.map((s) => `${s} (${results[s]?.error})`).join(', ')}` : ''}`,
+      })
 
-    if (!allSystemsProvisioned || !allCompliant || !financeEnrolled || !allApproved) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: 'Cannot complete onboarding - requirements not met',
-              checklist: {
-                approvals: allApproved,
-                systemProvisioning: allSystemsProvisioned,
-                compliance: allCompliant,
-                financeEnrollment: financeEnrolled,
-              },
-            }),
-          },
-        ],
+      offboardingWorkflow.advance(record, 'deprovision')
+      offboardingRecords.save(record)
+
+      const result = {
+        employeeId,
+        deprovisionedSystems: deprovisioned,
+        failedSystems: failed,
+        notProvisioned,
+        results,
+        systemStatus: record.systemDeprovisioning,
       }
+      if (failed.length > 0) {
+        return toolError(
+          'UPSTREAM_FAILED',
+          `${failed.length} system(s) failed for ${record.employeeName}; call deprovision_systems with retryFailed=true to retry them`,
+          result
+        )
+      }
+
+      return toolResult({
+        ...result,
+        message: systems.length === 0 ? `Nothing to deprovision for ${record.employeeName}` : `Systems deprovisioned for ${record.employeeName}`,
+      })
     }
+  )
+
+  server.registerTool(
+    'process_final_payroll',
+    {
+      description: 'Finance integration for final payroll processing and benefits termination.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        processFinalPayroll: z.boolean().describe('Process final payroll'),
+        terminateBenefits: z.boolean().describe('Terminate benefits'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        finalPayroll: z.object({ processed: z.boolean(), benefitsTerminated: z.boolean() }),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const processFinalPayroll = args.processFinalPayroll
+      const terminateBenefits = args.terminateBenefits
+      const record = offboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      const rejected = workflowRejection(offboardingWorkflow, record, 'payroll')
+      if (rejected) return rejected
+
+      if (processFinalPayroll) record.finalPayroll.processed = true
+      if (terminateBenefits) record.finalPayroll.benefitsTerminated = true
+
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Final Payroll Processing',
+        actor: resolveActor(extra) ?? 'Finance System',
+        details: `Final Payroll: ${processFinalPayroll}, Benefits Terminated: ${terminateBenefits}`,
+      })
 
-    record.status = 'Completed'
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Onboarding Completed',
-      actor: completedBy,
-      details: `Onboarding process completed for ${record.employee.name}`,
-    })
-
-    onboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            status: 'Completed',
-            message: `Onboarding completed successfully for ${record.employee.name}`,
-            completionDate: new Date().toISOString(),
-            notifications: [
-              `Email sent to ${record.employee.email}`,
-              `Manager ${record.employee.manager} notified`,
-              'HR team notified',
-            ],
-          }, null, 2),
-        },
-      ],
+      offboardingWorkflow.advance(record, 'payroll')
+      offboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        finalPayroll: record.finalPayroll,
+        message: `Final payroll processing completed for ${record.employeeName}`,
+      })
     }
-  }
-)
-
-server.tool(
-  'initiate_offboarding',
-  'Start the offboarding process for an employee (resignation, termination, contract end).',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    employeeName: z.string().describe('Employee name'),
-    lastWorkingDay: z.string().describe('Last working day (YYYY-MM-DD)'),
-    department: z.string().describe('Department'),
-    reason: z.string().describe('Reason for offboarding'),
-    manager: z.string().describe('Manager name'),
-    initiatedBy: z.string().describe('HR or Manager initiating'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-
-    const record: OffboardingRecord = {
-      employeeId,
-      employeeName: args.employeeName,
-      lastWorkingDay: args.lastWorkingDay,
-      department: args.department,
-      reason: args.reason,
-      manager: args.manager,
-      status: 'Initiated',
-      initiatedBy: args.initiatedBy,
-      initiatedDate: new Date().toISOString(),
-      approvals: {
-        manager: { approved: false },
-        hr: { approved: false },
+  )
+
+  server.registerTool(
+    'check_offboarding_compliance',
+    {
+      description: 'Verify exit forms submission and asset return. Asset return is computed from the asset inventory; check assets in with return_asset.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        exitFormSubmitted: z.boolean().optional().describe('Exit form submitted'),
+        clearanceCertificate: z.boolean().optional().describe('Clearance certificate issued'),
       },
-      systemDeprovisioning: {
-        hrms: false,
-        email: false,
-        network: false,
-        projectTools: false,
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        compliance: z.object({ exitFormSubmitted: z.boolean(), assetsReturned: z.boolean(), clearanceCertificate: z.boolean() }),
+        outstandingAssets: z.array(assetSummarySchema),
+        allCompliant: z.boolean(),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const record = offboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      const rejected = workflowRejection(offboardingWorkflow, record, 'compliance')
+      if (rejected) return rejected
+
+      if (args.exitFormSubmitted !== undefined) record.compliance.exitFormSubmitted = args.exitFormSubmitted
+      const outstanding = outstandingAssets(employeeId)
+      record.compliance.assetsReturned = outstanding.length === 0
+      if (args.clearanceCertificate !== undefined) record.compliance.clearanceCertificate = args.clearanceCertificate
+
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Compliance Check',
+        actor: resolveActor(extra) ?? 'Compliance System',
+        details: `Exit Form: ${record.compliance.exitFormSubmitted}, Assets: ${record.compliance.assetsReturned}, Clearance: ${record.compliance.clearanceCertificate}`,
+      })
+
+      const allCompliant = offboardingWorkflow.progress(record).phases.compliance
+
+      offboardingWorkflow.advance(record, 'compliance')
+      offboardingRecords.save(record)
+
+      return toolResult({
+        employeeId,
+        compliance: record.compliance,
+        outstandingAssets: outstanding.map((a) => ({ assetId: a.id, type: a.type, description: a.description, serialNumber: a.serialNumber })),
+        allCompliant,
+        message: allCompliant ? 'All compliance checks passed' : 'Compliance checks incomplete',
+      })
+    }
+  )
+
+  server.registerTool(
+    'complete_offboarding',
+    {
+      description: 'Finalize offboarding process and send completion notifications.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        completedBy: z.string().optional().describe('HR person completing the process (ignored when authenticated)'),
       },
-      compliance: {
-        exitFormSubmitted: false,
-        assetsReturned: false,
-        clearanceCertificate: false,
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        status: z.string(),
+        completionDate: z.string(),
+        notifications: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employeeId = args.employeeId
+      const completedBy = resolveActor(extra, args.completedBy)
+      if (!completedBy) return missingActor('completedBy')
+      const record = offboardingRecords.get(employeeId)
+
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      const rejected = workflowRejection(offboardingWorkflow, record, 'complete')
+      if (rejected) return rejected
+
+      try {
+        offboardingWorkflow.advance(record, 'complete')
+      } catch (error) {
+        if (!(error instanceof WorkflowError)) throw error
+        return toolError('INVALID_TRANSITION', 'Cannot complete offboarding - requirements not met', {
+          checklist: offboardingWorkflow.progress(record).phases,
+          pendingSteps: error.pendingSteps,
+        })
+      }
+
+      record.auditTrail.push({
+        date: new Date().toISOString(),
+        action: 'Offboarding Completed',
+        actor: completedBy,
+        details: `Offboarding process completed for ${record.employeeName}`,
+      })
+
+      offboardingRecords.save(record)
+      const leaver = employees.get(employeeId)
+      if (leaver) setEmploymentStatus(leaver, 'Exited')
+
+      return toolResult({
+        employeeId,
+        status: 'Completed',
+        message: `Offboarding completed successfully for ${record.employeeName}`,
+        completionDate: new Date().toISOString(),
+        notifications: [
+          'Employee notified',
+          `Manager ${record.manager} notified`,
+          'HR team notified',
+        ],
+      })
+    }
+  )
+
+  server.registerTool(
+    'list_assets',
+    {
+      description: 'List assets in the inventory, optionally filtered by type, status or the employee holding them.',
+      inputSchema: {
+        type: z.enum(ASSET_TYPES).optional().describe('Asset type'),
+        status: z.enum(['Available', 'Assigned', 'Lost', 'Retired']).optional().describe('Asset status'),
+        employeeId: z.string().optional().describe('Only assets assigned to this employee'),
       },
-      finalPayroll: {
-        processed: false,
-        benefitsTerminated: false,
+      outputSchema: toolOutput({
+        count: z.number(),
+        assets: z.array(assetSchema),
+      }),
+    },
+    async (args) => {
+      const list = assets.filter((a) =>
+        (!args.type || a.type === args.type) &&
+        (!args.status || a.status === args.status) &&
+        (!args.employeeId || a.assignedTo === args.employeeId)
+      )
+
+      return toolResult({ message: `${list.length} asset(s) found`, count: list.length, assets: list })
+    }
+  )
+
+  server.registerTool(
+    'assign_asset',
+    {
+      description: 'Assign an asset (laptop, badge, phone, license, ...) to an employee during onboarding. Give an assetId, or a type to pick the next available asset of that type.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        assetId: z.string().optional().describe('Specific asset to assign'),
+        type: z.enum(ASSET_TYPES).optional().describe('Asset type to pick from available stock when assetId is omitted'),
+        notes: z.string().optional().describe('Assignment notes'),
       },
-      auditTrail: [
-        {
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        asset: assetSchema,
+        assignedAssets: z.array(z.string()),
+      }),
+    },
+    async (args, extra) => {
+      const employee = employees.get(args.employeeId)
+      const asset = args.assetId
+        ? assets.get(args.assetId)
+        : args.type
+          ? assets.find((a) => a.type === args.type && a.status === 'Available')
+          : undefined
+
+      if (!employee) return toolError('NOT_FOUND', 'Employee not found')
+      if (employee.employmentStatus === 'Offboarding' || employee.employmentStatus === 'Exited') {
+        return toolError('INVALID_TRANSITION', `Cannot assign assets to an employee who is ${employee.employmentStatus}`)
+      }
+      if (!args.assetId && !args.type) return toolError('VALIDATION_FAILED', 'assetId or type is required')
+      if (!asset) {
+        return toolError('NOT_FOUND', args.assetId ? `Asset ${args.assetId} not found` : `No available ${args.type} in stock`)
+      }
+      if (asset.status !== 'Available') {
+        return toolError('CONFLICT', `Asset ${asset.id} is ${asset.status}${asset.assignedTo ? ` to ${asset.assignedTo}` : ''}`)
+      }
+
+      const actor = resolveActor(extra) ?? 'IT Service Desk'
+      assignAsset(asset, employee.id, actor, args.notes)
+
+      const onboarding = onboardingRecords.get(employee.id)
+      if (onboarding) {
+        onboarding.auditTrail.push({
           date: new Date().toISOString(),
-          action: 'Offboarding Initiated',
-          actor: args.initiatedBy,
-          details: `Offboarding started for ${args.employeeName}. Reason: ${args.reason}`,
-        },
-      ],
-    }
+          action: 'Asset Assigned',
+          actor,
+          details: `${asset.id} (${asset.type}: ${asset.description}) assigned`,
+        })
+        onboardingRecords.save(onboarding)
+      }
 
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            status: 'Initiated',
-            message: `Offboarding process initiated for ${args.employeeName}`,
-            lastWorkingDay: args.lastWorkingDay,
-            nextSteps: ['Manager Approval', 'HR Approval'],
-          }, null, 2),
-        },
-      ],
+      return toolResult({
+        employeeId: employee.id,
+        asset,
+        assignedAssets: outstandingAssets(employee.id).map((a) => a.id),
+        message: `${asset.description} (${asset.id}) assigned to ${employee.name}`,
+      })
     }
-  }
-)
-
-server.tool(
-  'approve_offboarding',
-  'Manager or HR approval of offboarding request.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    approverRole: z.enum(['manager', 'hr']).describe('Role of approver'),
-    approverName: z.string().describe('Name of approver'),
-    approved: z.boolean().describe('Approval decision'),
-    comments: z.string().optional().describe('Approval comments'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = offboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'return_asset',
+    {
+      description: 'Check in an asset an employee is returning during offboarding. Use condition "lost" to write off an asset that will not come back.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        assetId: z.string().describe('Asset being returned'),
+        condition: z.enum(['good', 'damaged', 'lost']).default('good').describe('Condition on return'),
+        notes: z.string().optional().describe('Check-in notes'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        assetId: z.string(),
+        condition: z.enum(['good', 'damaged', 'lost']),
+        outstandingAssets: z.array(assetSummarySchema),
+        assetsReturned: z.boolean(),
+      }),
+    },
+    async (args, extra) => {
+      const asset = assets.get(args.assetId)
+      if (!asset) return toolError('NOT_FOUND', `Asset ${args.assetId} not found`)
+      if (asset.status !== 'Assigned' || asset.assignedTo !== args.employeeId) {
+        return toolError('CONFLICT', `Asset ${asset.id} is not assigned to ${args.employeeId}`)
+      }
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
-        ],
+      const actor = resolveActor(extra) ?? 'IT Service Desk'
+      checkInAsset(asset, args.condition, actor, args.notes)
+      const outstanding = outstandingAssets(args.employeeId)
+
+      const offboarding = offboardingRecords.get(args.employeeId)
+      if (offboarding) {
+        offboarding.compliance.assetsReturned = outstanding.length === 0
+        offboarding.auditTrail.push({
+          date: new Date().toISOString(),
+          action: args.condition === 'lost' ? 'Asset Written Off' : 'Asset Returned',
+          actor,
+          details: `${asset.id} (${asset.type}: ${asset.description}) ${args.condition === 'lost' ? 'reported lost' : `returned in ${args.condition} condition`}`,
+        })
+        offboardingRecords.save(offboarding)
       }
+
+      return toolResult({
+        message: `${asset.id} ${args.condition === 'lost' ? 'written off' : 'returned'}; ${outstanding.length} asset(s) still outstanding`,
+        employeeId: args.employeeId,
+        assetId: asset.id,
+        condition: args.condition,
+        outstandingAssets: outstanding.map((a) => ({ assetId: a.id, type: a.type, description: a.description })),
+        assetsReturned: outstanding.length === 0,
+      })
     }
+  )
+
+  server.registerTool(
+    'upload_document',
+    {
+      description: 'Upload an employee document (NDA, ID proof, background check, offer letter, ...) as base64, or attach one held elsewhere by reference and checksum. Documents count towards compliance once verified with verify_document.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        type: z.enum(DOCUMENT_TYPES).describe('Document type'),
+        fileName: z.string().min(1).describe('Original file name'),
+        contentType: z.string().optional().describe('MIME type, e.g. application/pdf'),
+        contentBase64: z.string().optional().describe('File content, base64-encoded; stored in the local document store'),
+        fileReference: z.string().optional().describe('External reference (e-signature envelope id, DMS URL) when the content is not uploaded'),
+        checksum: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().describe('SHA-256 of the content; checked against uploaded content'),
+        signer: z.string().optional().describe('Who signed the document'),
+        signedAt: z.string().datetime({ offset: true }).optional().describe('When it was signed (ISO 8601)'),
+        expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Expiry date (YYYY-MM-DD)'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        document: documentSchema,
+      }),
+    },
+    async (args, extra) => {
+      const employee = employees.get(args.employeeId)
+      if (!employee) return toolError('NOT_FOUND', 'Employee not found')
+
+      const actor = resolveActor(extra) ?? 'HR Operations'
+      let doc
+      try {
+        doc = await addDocument({ ...args, employeeId: employee.id, uploadedBy: actor })
+      } catch (error) {
+        if (!(error instanceof DocumentError)) throw error
+        return toolError('VALIDATION_FAILED', error.message)
+      }
 
-    const approverRole = args.approverRole
-    const approved = args.approved
-    const approverName = args.approverName
-    const comments = args.comments
+      const onboarding = onboardingRecords.get(employee.id)
+      if (onboarding) {
+        onboarding.auditTrail.push({
+          date: doc.uploadedAt,
+          action: 'Document Uploaded',
+          actor,
+          details: `${doc.id} (${doc.type}: ${doc.fileName})${doc.signer ? ` signed by ${doc.signer}` : ''}`,
+        })
+        onboardingRecords.save(onboarding)
+      }
+
+      return toolResult({
+        employeeId: employee.id,
+        document: doc,
+        message: `${doc.fileName} stored as ${doc.id}; pending verification`,
+      })
+    }
+  )
+
+  server.registerTool(
+    'verify_document',
+    {
+      description: 'Approve or reject an uploaded document. Locally stored files are re-checked against their checksum before they can be approved.',
+      inputSchema: {
+        documentId: z.string().describe('Document ID'),
+        approved: z.boolean().describe('Whether the document is accepted'),
+        notes: z.string().optional().describe('Review notes; required when rejecting'),
+      },
+      outputSchema: toolOutput({
+        document: documentSchema,
+        ...documentComplianceSchema,
+      }),
+    },
+    async (args, extra) => {
+      const doc = documents.get(args.documentId)
+      const problem = doc && args.approved ? await integrityProblem(doc) : null
+      if (!doc) return toolError('NOT_FOUND', `Document ${args.documentId} not found`)
+      if (doc.status !== 'Pending Verification') return toolError('INVALID_TRANSITION', `Document ${doc.id} is already ${doc.status}`)
+      if (!args.approved && !args.notes) return toolError('VALIDATION_FAILED', 'notes are required when rejecting a document')
+      if (problem) return toolError('VALIDATION_FAILED', `Cannot verify ${doc.id}: ${problem}`)
+      if (args.approved && isExpired(doc)) return toolError('VALIDATION_FAILED', `Cannot verify ${doc.id}: it expired on ${doc.expiresAt}`)
+
+      const actor = resolveActor(extra) ?? 'Compliance System'
+      doc.status = args.approved ? 'Verified' : 'Rejected'
+      doc.verifiedBy = actor
+      doc.verifiedAt = new Date().toISOString()
+      doc.reviewNotes = args.notes
+      documents.save(doc)
+
+      const { flags, missing } = documentCompliance(doc.employeeId)
+      const onboarding = onboardingRecords.get(doc.employeeId)
+      if (onboarding) {
+        onboarding.compliance = flags
+        onboarding.auditTrail.push({
+          date: doc.verifiedAt,
+          action: args.approved ? 'Document Verified' : 'Document Rejected',
+          actor,
+          details: `${doc.id} (${doc.type}: ${doc.fileName})${args.notes ? ` - ${args.notes}` : ''}`,
+        })
+        onboardingRecords.save(onboarding)
+      }
 
-    record.approvals[approverRole] = {
-      approved,
-      approver: approverName,
-      date: new Date().toISOString(),
+      return toolResult({
+        message: `Document ${doc.id} ${doc.status === 'Verified' ? 'verified' : 'rejected'}`,
+        document: doc,
+        compliance: flags,
+        missingDocuments: missing,
+      })
+    }
+  )
+
+  server.registerTool(
+    'list_documents',
+    {
+      description: 'List the documents on file for an employee, with the compliance checks they satisfy.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+        type: z.enum(DOCUMENT_TYPES).optional().describe('Document type'),
+      },
+      outputSchema: toolOutput({
+        employeeId: z.string(),
+        count: z.number(),
+        documents: z.array(documentSchema.extend({ expired: z.boolean() })),
+        ...documentComplianceSchema,
+      }),
+    },
+    async (args) => {
+      const list = documents.filter((d) => d.employeeId === args.employeeId && (!args.type || d.type === args.type))
+      const { flags, missing } = documentCompliance(args.employeeId)
+
+      return toolResult({
+        message: `${list.length} document(s) on file for ${args.employeeId}; ${missing.length} missing`,
+        employeeId: args.employeeId,
+        count: list.length,
+        documents: list.map((d) => ({ ...d, expired: isExpired(d) })),
+        compliance: flags,
+        missingDocuments: missing,
+      })
     }
+  )
+
+  server.registerTool(
+    'get_onboarding_status',
+    {
+      description: 'Check the current status of an onboarding process.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+      },
+      outputSchema: toolOutput({
+        ...onboardingStatusSchema,
+      }),
+    },
+    async (args) => {
+      const employeeId = args.employeeId
+      const record = onboardingRecords.get(employeeId)
 
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: `${approverRole.toUpperCase()} ${approved ? 'Approved' : 'Rejected'}`,
-      actor: approverName,
-      details: comments || `${approverRole} ${approved ? 'approved' : 'rejected'} offboarding`,
-    })
+      if (!record) return toolError('NOT_FOUND', 'Employee not found')
 
-    if (record.approvals.manager.approved && record.approvals.hr.approved) {
-      record.status = 'Approved'
+      return toolResult({ message: `Onboarding for ${employeeId} is ${record.status}`, ...onboardingStatus(record) })
     }
+  )
+
+  server.registerTool(
+    'get_offboarding_status',
+    {
+      description: 'Check the current status of an offboarding process.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+      },
+      outputSchema: toolOutput({
+        ...offboardingStatusSchema,
+      }),
+    },
+    async (args) => {
+      const employeeId = args.employeeId
+      const record = offboardingRecords.get(employeeId)
 
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            approverRole,
-            approved,
-            status: record.status,
-            message: `${approverRole.toUpperCase()} ${approved ? 'approved' : 'rejected'} offboarding for ${record.employeeName}`,
-            nextSteps: record.status === 'Approved' ? ['System Deprovisioning', 'Compliance Checks', 'Final Payroll'] : ['Pending other approvals'],
-          }, null, 2),
-        },
-      ],
+      if (!record) return toolError('NOT_FOUND', 'Offboarding record not found')
+
+      return toolResult({ message: `Offboarding for ${employeeId} is ${record.status}`, ...offboardingStatus(record) })
     }
-  }
-)
-
-server.tool(
-  'deprovision_systems',
-  'Deactivate user accounts and revoke access rights.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    systems: z.array(z.enum(['hrms', 'email', 'network', 'projectTools'])).describe('Systems to deprovision'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const systems = args.systems
-    const record = offboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'list_pending_approvals',
+    {
+      description: 'Get all pending onboarding/offboarding approvals.',
+      inputSchema: {
+        type: z.enum(['onboarding', 'offboarding', 'all']).describe('Type of approvals to list'),
+      },
+      outputSchema: toolOutput({
+        pendingOnboarding: z.array(
+          z.object({
+            employeeId: z.string(),
+            employeeName: z.string(),
+            type: z.literal('onboarding'),
+            status: z.string(),
+            pendingApprovals: z.object({ hr: z.boolean(), manager: z.boolean() }),
+          })
+        ),
+        pendingOffboarding: z.array(
+          z.object({
+            employeeId: z.string(),
+            employeeName: z.string(),
+            type: z.literal('offboarding'),
+            status: z.string(),
+            lastWorkingDay: z.string(),
+            pendingApprovals: z.object({ manager: z.boolean(), hr: z.boolean() }),
+          })
+        ),
+        totalPending: z.number(),
+      }),
+    },
+    async (args) => {
+      const type = args.type
+      const pendingOnboarding: any[] = []
+      const pendingOffboarding: any[] = []
+
+      if (type === 'onboarding' || type === 'all') {
+        onboardingRecords.all().forEach((record) => {
+          if (!record.approvals.hr.approved || !record.approvals.manager.approved) {
+            pendingOnboarding.push({
+              employeeId: record.employeeId,
+              employeeName: record.employee.name,
+              type: 'onboarding',
+              status: record.status,
+              pendingApprovals: {
+                hr: !record.approvals.hr.approved,
+                manager: !record.approvals.manager.approved,
+              },
+            })
+          }
+        })
+      }
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
-        ],
+      if (type === 'offboarding' || type === 'all') {
+        offboardingRecords.all().forEach((record) => {
+          if (!record.approvals.manager.approved || !record.approvals.hr.approved) {
+            pendingOffboarding.push({
+              employeeId: record.employeeId,
+              employeeName: record.employeeName,
+              type: 'offboarding',
+              status: record.status,
+              lastWorkingDay: record.lastWorkingDay,
+              pendingApprovals: {
+                manager: !record.approvals.manager.approved,
+                hr: !record.approvals.hr.approved,
+              },
+            })
+          }
+        })
       }
+
+      return toolResult({
+        message: `${pendingOnboarding.length + pendingOffboarding.length} process(es) awaiting approval`,
+        pendingOnboarding,
+        pendingOffboarding,
+        totalPending: pendingOnboarding.length + pendingOffboarding.length,
+      })
     }
+  )
+
+  server.registerTool(
+    'list_sla_risks',
+    {
+      description: 'List open onboarding/offboarding records with steps at risk of missing, or past, their due dates (derived from the date of joining or last working day). Newly overdue steps are escalated to HR operations and logged in the audit trail.',
+      inputSchema: {
+        process: z.enum(['onboarding', 'offboarding']).optional().describe('Only this process'),
+        asOfDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Evaluate as of this date (YYYY-MM-DD, default today)'),
+      },
+      outputSchema: toolOutput({
+        asOfDate: z.string(),
+        recordsEvaluated: z.number(),
+        atRiskCount: z.number(),
+        overdueCount: z.number(),
+        records: z.array(
+          z.object({
+            process: z.string(),
+            employeeId: z.string(),
+            employeeName: z.string(),
+            status: z.string(),
+            anchorDate: z.string(),
+            overdue: z.array(stepDeadlineSchema),
+            atRisk: z.array(stepDeadlineSchema),
+          })
+        ),
+        escalations: z.array(
+          z.object({
+            process: z.string(),
+            employeeId: z.string(),
+            step: z.string(),
+            dueDate: z.string(),
+            daysOverdue: z.number(),
+            notified: z.string().optional(),
+          })
+        ),
+      }),
+    },
+    async (args) => {
+      const report = await slaMonitor.run(args.asOfDate, args.process)
 
-    systems.forEach((system) => {
-      if (system in record.systemDeprovisioning) {
-        record.systemDeprovisioning[system as keyof typeof record.systemDeprovisioning] = true
-      }
-    })
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Systems Deprovisioned',
-      actor: 'IT System',
-      details: `Deprovisioned: ${systems.join(', ')}`,
-    })
-
-    record.status = 'In Progress'
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            deprovisionedSystems: systems,
-            systemStatus: record.systemDeprovisioning,
-            message: `Systems deprovisioned for ${record.employeeName}`,
-          }, null, 2),
-        },
-      ],
+      return toolResult({ message: `${report.overdueCount} overdue and ${report.atRiskCount} at-risk step(s) as of ${report.asOfDate}`, ...report })
     }
-  }
-)
-
-server.tool(
-  'process_final_payroll',
-  'Finance integration for final payroll processing and benefits termination.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    processFinalPayroll: z.boolean().describe('Process final payroll'),
-    terminateBenefits: z.boolean().describe('Terminate benefits'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const processFinalPayroll = args.processFinalPayroll
-    const terminateBenefits = args.terminateBenefits
-    const record = offboardingRecords.get(employeeId)
+  )
+
+  server.registerTool(
+    'get_employee_details',
+    {
+      description: 'Retrieve an employee from the employee registry, with their system access and onboarding/offboarding status.',
+      inputSchema: {
+        employeeId: z.string().describe('Employee ID'),
+      },
+      outputSchema: toolOutput({
+        employee: employeeSchema,
+        activeSystems: z.array(z.string()),
+        systemAccess: z.record(z.object({}).passthrough()).describe('Account and grant/revoke dates per system'),
+        onboardingStatus: z.string().nullable(),
+        offboardingStatus: z.string().nullable(),
+      }),
+    },
+    async (args) => {
+      const employeeId = args.employeeId
+      const employee = employees.get(employeeId)
+
+      if (!employee) {
+        return hasValidCheckDigit(employeeId)
+          ? toolError('NOT_FOUND', 'Employee not found')
+          : toolError('VALIDATION_FAILED', `${employeeId} is not a valid employee ID (check digit mismatch)`)
+      }
 
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
-        ],
+      const { systems, ...details } = employee
+      return toolResult({
+        message: `${employee.name} (${employee.id}) is ${employee.employmentStatus}`,
+        employee: details,
+        activeSystems: activeSystems(employee),
+        systemAccess: systems,
+        onboardingStatus: onboardingRecords.get(employeeId)?.status ?? null,
+        offboardingStatus: offboardingRecords.get(employeeId)?.status ?? null,
+      })
+    }
+  )
+
+  // Purchase order, team task and accounts receivable tools. They call the same functions
+  // as the REST routes in index.ts, so both surfaces share one set of rules and records.
+
+  server.registerTool(
+    'list_pending_pos',
+    {
+      description: 'List purchase orders awaiting approval, with the approver role each one is waiting on.',
+      inputSchema: {},
+      outputSchema: toolOutput({
+        count: z.number(),
+        purchaseOrders: z.array(
+          z.object({
+            poId: z.string(),
+            amount: z.number(),
+            currency: z.string(),
+            region: z.string(),
+            category: z.string().nullable(),
+            requester: z.string(),
+            details: z.string(),
+            currentApprover: z.string(),
+          })
+        ),
+      }),
+    },
+    async () => {
+      const pending = pendingPurchaseOrders()
+
+      return toolResult({
+        message: `${pending.length} purchase order(s) pending approval`,
+        count: pending.length,
+        purchaseOrders: pending.map((po) => ({
+          poId: po.id,
+          amount: po.amount,
+          currency: po.currency,
+          region: po.region,
+          category: po.category ?? null,
+          requester: po.requester,
+          details: po.details,
+          currentApprover: po.currentApprover,
+        })),
+      })
+    }
+  )
+
+  server.registerTool(
+    'approve_po',
+    {
+      description: 'Approve a purchase order at its current approval level. Forwards it to the next approver in the approval matrix, or approves it fully at the last level.',
+      inputSchema: {
+        poId: z.string().describe('Purchase order ID'),
+        comments: z.string().optional().describe('Approval comments'),
+        approverId: z.string().optional().describe('Approver name (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        poId: z.string(),
+        status: z.enum(['Pending', 'Approved', 'Rejected']),
+        nextApprover: z.string().nullable().describe('Approver the PO was forwarded to; null once fully approved'),
+        approvalMatrix: z.array(z.string()),
+        matchedRule: z.string(),
+        explanation: z.string(),
+      }),
+    },
+    async (args, extra) => {
+      const approver = resolveActor(extra, args.approverId)
+      if (!approver) return missingActor('approverId')
+
+      try {
+        const { po, message, nextApprover, evaluation } = approvePurchaseOrder(
+          args.poId,
+          { name: approver, identity: identityFromAuthInfo(extra.authInfo) },
+          args.comments
+        )
+        return toolResult({
+          message,
+          poId: po.id,
+          status: po.status,
+          nextApprover,
+          approvalMatrix: evaluation.approvers,
+          matchedRule: evaluation.rule.id,
+          explanation: evaluation.explanation,
+        })
+      } catch (error) {
+        return serviceFailure(error)
       }
     }
-
-    if (processFinalPayroll) record.finalPayroll.processed = true
-    if (terminateBenefits) record.finalPayroll.benefitsTerminated = true
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Final Payroll Processing',
-      actor: 'Finance System',
-      details: `Final Payroll: ${processFinalPayroll}, Benefits Terminated: ${terminateBenefits}`,
-    })
-
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            finalPayroll: record.finalPayroll,
-            message: `Final payroll processing completed for ${record.employeeName}`,
-          }, null, 2),
-        },
-      ],
+  )
+
+  server.registerTool(
+    'reject_po',
+    {
+      description: 'Reject a purchase order. Comments explaining the rejection are required.',
+      inputSchema: {
+        poId: z.string().describe('Purchase order ID'),
+        comments: z.string().describe('Reason for rejection'),
+        approverId: z.string().optional().describe('Approver name (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        poId: z.string(),
+        status: z.enum(['Pending', 'Approved', 'Rejected']),
+      }),
+    },
+    async (args, extra) => {
+      const approver = resolveActor(extra, args.approverId)
+      if (!approver) return missingActor('approverId')
+
+      try {
+        const po = rejectPurchaseOrder(args.poId, { name: approver, identity: identityFromAuthInfo(extra.authInfo) }, args.comments)
+        return toolResult({ message: `PO ${po.id} has been rejected.`, poId: po.id, status: po.status })
+      } catch (error) {
+        return serviceFailure(error)
+      }
     }
-  }
-)
-
-server.tool(
-  'check_offboarding_compliance',
-  'Verify exit forms submission and asset return.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    exitFormSubmitted: z.boolean().optional().describe('Exit form submitted'),
-    assetsReturned: z.boolean().optional().describe('Company assets returned'),
-    clearanceCertificate: z.boolean().optional().describe('Clearance certificate issued'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = offboardingRecords.get(employeeId)
-
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
-        ],
+  )
+
+  server.registerTool(
+    'reassign_po',
+    {
+      description: 'Reassign the pending approval of a purchase order to another approver.',
+      inputSchema: {
+        poId: z.string().describe('Purchase order ID'),
+        newApproverId: z.string().describe('Approver role or person to hand the approval to'),
+        currentApproverId: z.string().optional().describe('Current approver name (ignored when authenticated)'),
+      },
+      outputSchema: toolOutput({
+        poId: z.string(),
+        previousApprover: z.string(),
+        currentApprover: z.string(),
+      }),
+    },
+    async (args, extra) => {
+      const actor = resolveActor(extra, args.currentApproverId)
+      if (!actor) return missingActor('currentApproverId')
+
+      try {
+        const { po, previousApprover } = reassignPurchaseOrder(args.poId, args.newApproverId, {
+          name: actor,
+          identity: identityFromAuthInfo(extra.authInfo),
+        })
+        return toolResult({
+          message: `PO ${po.id} reassigned to ${args.newApproverId}`,
+          poId: po.id,
+          previousApprover,
+          currentApprover: po.currentApprover,
+        })
+      } catch (error) {
+        return serviceFailure(error)
       }
     }
-
-    if (args.exitFormSubmitted !== undefined) record.compliance.exitFormSubmitted = args.exitFormSubmitted
-    if (args.assetsReturned !== undefined) record.compliance.assetsReturned = args.assetsReturned
-    if (args.clearanceCertificate !== undefined) record.compliance.clearanceCertificate = args.clearanceCertificate
-
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Compliance Check',
-      actor: 'Compliance System',
-      details: `Exit Form: ${record.compliance.exitFormSubmitted}, Assets: ${record.compliance.assetsReturned}, Clearance: ${record.compliance.clearanceCertificate}`,
-    })
-
-    const allCompliant = record.compliance.exitFormSubmitted && record.compliance.assetsReturned && record.compliance.clearanceCertificate
-
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            compliance: record.compliance,
-            allCompliant,
-            message: allCompliant ? 'All compliance checks passed' : 'Compliance checks incomplete',
-          }, null, 2),
-        },
-      ],
+  )
+
+  server.registerTool(
+    'get_po_approval_chain',
+    {
+      description: 'Get the approval chain for a purchase order, or for a region and amount (with optional currency and category), with the approval matrix rule that applies.',
+      inputSchema: {
+        poId: z.string().optional().describe('Purchase order ID'),
+        region: z.string().optional().describe('Region, when no poId is given'),
+        amount: z.number().optional().describe('Amount, when no poId is given'),
+        currency: z.string().optional().describe('Currency (default USD)'),
+        category: z.string().optional().describe('Spend category'),
+      },
+      outputSchema: toolOutput({
+        region: z.string(),
+        amount: z.number(),
+        currency: z.string(),
+        category: z.string().nullable(),
+        approvalMatrix: z.array(z.string()),
+        matchedRule: approvalRuleSchema,
+        explanation: z.string(),
+        shadowedRules: z.array(z.string()),
+      }),
+    },
+    async (args) => {
+      try {
+        const { region, amount, currency, category, evaluation } = approvalChain(args)
+        return toolResult({
+          message: `Approval chain: ${evaluation.approvers.join(' -> ')}`,
+          region,
+          amount,
+          currency,
+          category: category || null,
+          approvalMatrix: evaluation.approvers,
+          matchedRule: evaluation.rule,
+          explanation: evaluation.explanation,
+          shadowedRules: evaluation.shadowedRules,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
     }
-  }
-)
-
-server.tool(
-  'complete_offboarding',
-  'Finalize offboarding process and send completion notifications.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-    completedBy: z.string().describe('HR person completing the process'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const completedBy = args.completedBy
-    const record = offboardingRecords.get(employeeId)
-
-    if (!record) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
-        ],
+  )
+
+  server.registerTool(
+    'create_task',
+    {
+      description: 'Create a project task. It starts unassigned with status Not Started.',
+      inputSchema: {
+        name: z.string().describe('Task name'),
+        projectCode: z.string().describe('Project code'),
+        description: z.string().optional().describe('Task description'),
+        startDate: z.string().optional().describe('Start date (ISO 8601, default now)'),
+        endDate: z.string().optional().describe('End date (ISO 8601, default a week from now)'),
+      },
+      outputSchema: toolOutput({
+        task: taskSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const task = createTask(args)
+        return toolResult({ message: 'Task created successfully', task })
+      } catch (error) {
+        return serviceFailure(error)
       }
     }
-
-    const allSystemsDeprovisioned = Object.values(record.systemDeprovisioning).every(v => v)
-    const allCompliant = Object.values(record.compliance).every(v => v)
-    const payrollProcessed = Object.values(record.finalPayroll).every(v => v)
-    const allApproved = record.approvals.manager.approved && record.approvals.hr.approved
-
-    if (!allSystemsDeprovisioned || !allCompliant || !payrollProcessed || !allApproved) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: 'Cannot complete offboarding - requirements not met',
-              checklist: {
-                approvals: allApproved,
-                systemDeprovisioning: allSystemsDeprovisioned,
-                compliance: allCompliant,
-                finalPayroll: payrollProcessed,
-              },
-            }),
-          },
-        ],
+  )
+
+  server.registerTool(
+    'assign_task',
+    {
+      description: 'Assign a task to one or more team members, keeping anyone already assigned.',
+      inputSchema: {
+        taskId: z.string().describe('Task ID'),
+        teamMemberIds: z.array(z.string()).min(1).describe('Team member IDs to assign'),
+      },
+      outputSchema: toolOutput({
+        task: taskSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const task = assignTask(args.taskId, args.teamMemberIds)
+        return toolResult({ message: 'Task assigned successfully', task })
+      } catch (error) {
+        return serviceFailure(error)
       }
     }
-
-    record.status = 'Completed'
-    record.auditTrail.push({
-      date: new Date().toISOString(),
-      action: 'Offboarding Completed',
-      actor: completedBy,
-      details: `Offboarding process completed for ${record.employeeName}`,
-    })
-
-    offboardingRecords.set(employeeId, record)
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            status: 'Completed',
-            message: `Offboarding completed successfully for ${record.employeeName}`,
-            completionDate: new Date().toISOString(),
-            notifications: [
-              'Employee notified',
-              `Manager ${record.manager} notified`,
-              'HR team notified',
-            ],
-          }, null, 2),
-        },
-      ],
+  )
+
+  server.registerTool(
+    'update_task',
+    {
+      description: 'Update the details or status of a task.',
+      inputSchema: {
+        taskId: z.string().describe('Task ID'),
+        updates: z
+          .object({
+            name: z.string().optional(),
+            description: z.string().optional(),
+            projectCode: z.string().optional(),
+            status: z.enum(['Not Started', 'In Progress', 'Completed']).optional(),
+            startDate: z.string().optional(),
+            endDate: z.string().optional(),
+          })
+          .describe('Fields to change'),
+      },
+      outputSchema: toolOutput({
+        task: taskSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const task = updateTask(args.taskId, args.updates)
+        return toolResult({ message: 'Task updated successfully', task })
+      } catch (error) {
+        return serviceFailure(error)
+      }
     }
-  }
-)
+  )
+
+  server.registerTool(
+    'replace_team_member',
+    {
+      description: 'Replace a team member assigned to a task with another team member.',
+      inputSchema: {
+        taskId: z.string().describe('Task ID'),
+        oldMemberId: z.string().describe('Team member currently assigned'),
+        newMemberId: z.string().describe('Team member taking over'),
+      },
+      outputSchema: toolOutput({
+        task: taskSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const task = replaceTeamMember(args.taskId, args.oldMemberId, args.newMemberId)
+        return toolResult({
+          message: `Replaced ${args.oldMemberId} with ${args.newMemberId} on task ${args.taskId}`,
+          task,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'list_team_members',
+    {
+      description: 'List team members with their roles and work item types.',
+      inputSchema: {},
+      outputSchema: toolOutput({
+        count: z.number(),
+        teamMembers: z.array(z.object({ id: z.string(), name: z.string(), role: z.string(), workItemTypes: z.array(z.string()) })),
+      }),
+    },
+    async () => {
+      return toolResult({ message: `${teamMembers.count()} team member(s)`, count: teamMembers.count(), teamMembers: teamMembers.all() })
+    }
+  )
+
+  server.registerTool(
+    'create_invoice',
+    {
+      description: 'Create an invoice for a customer, priced through the tax engine. Terms, currency and tax settings default from the customer master. Sent invoices open a collection record; drafts stay editable until sent.',
+      inputSchema: {
+        ...invoiceInput.shape,
+        status: z.enum(['Draft', 'Sent']).optional().describe('Draft, or Sent to issue it now (default Sent)'),
+      },
+      outputSchema: toolOutput({
+        invoiceId: z.string(),
+        status: z.string(),
+        subtotal: z.number(),
+        taxTotal: z.number(),
+        totalAmount: z.number(),
+        currency: z.string(),
+        dueDate: z.string(),
+        creditWarning: creditWarningSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const { status, ...fields } = args
+        const invoice = createInvoice(fields, status)
+        return toolResult({
+          message: `Invoice ${invoice.id} created as ${invoice.status}`,
+          invoiceId: invoice.id,
+          status: invoice.status,
+          subtotal: invoice.subtotal,
+          taxTotal: invoice.tax_total,
+          totalAmount: invoice.total_amount,
+          currency: invoice.currency,
+          dueDate: invoice.due_date,
+          creditWarning: creditWarningFor(invoice),
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'send_invoice',
+    {
+      description: "Issue a draft invoice and email it to the customer's billing contact.",
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+      },
+      outputSchema: toolOutput({
+        invoiceId: z.string(),
+        status: z.string(),
+        notificationId: z.string().nullable(),
+        creditWarning: creditWarningSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const { invoice, notificationId } = await sendInvoice(args.invoiceId)
+        return toolResult({
+          message: `Invoice ${invoice.id} sent`,
+          invoiceId: invoice.id,
+          status: invoice.status,
+          notificationId: notificationId ?? null,
+          creditWarning: creditWarningFor(invoice),
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'get_invoice',
+    {
+      description: 'Retrieve an invoice with its payments, credit notes and the statuses it can move to next.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+      },
+      outputSchema: toolOutput({
+        invoice: invoiceSchema,
+      }),
+    },
+    async (args) => {
+      try {
+        const invoice = invoiceDetails(args.invoiceId)
+        return toolResult({ message: `Invoice ${invoice.id} is ${invoice.status} with ${invoice.balance} ${invoice.currency} outstanding`, invoice })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'record_payment',
+    {
+      description: 'Record a payment or refund against an issued invoice. Updates the balance, status and collection record, and the realized FX difference for foreign-currency invoices.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+        amount: z.number().positive().describe('Amount in the invoice currency'),
+        method: z.enum(PAYMENT_METHODS).describe('Payment method'),
+        type: z.enum(['payment', 'refund']).optional().describe('payment (default) or refund'),
+        reference: z.string().optional().describe('Bank or remittance reference'),
+        paymentDate: z.string().optional().describe('Payment date (YYYY-MM-DD, default today)'),
+        comments: z.string().optional().describe('Comments'),
+      },
+      outputSchema: toolOutput({
+        payment: z.object({ id: z.string(), type: z.enum(['payment', 'refund']), amount: z.number() }).passthrough(),
+        invoiceId: z.string(),
+        invoiceStatus: z.string(),
+        previousStatus: z.string(),
+        balance: z.number(),
+        overpayment: z.number(),
+      }),
+    },
+    async (args, extra) => {
+      try {
+        const { payment, invoice, previousStatus } = recordPayment(
+          args.invoiceId,
+          { amount: args.amount, method: args.method, type: args.type, reference: args.reference, payment_date: args.paymentDate, comments: args.comments },
+          resolveActor(extra) ?? 'Agent'
+        )
+        return toolResult({
+          message: `${payment.type === 'refund' ? 'Refund' : 'Payment'} ${payment.id} recorded; invoice ${invoice.id} is ${invoice.status}`,
+          payment,
+          invoiceId: invoice.id,
+          invoiceStatus: invoice.status,
+          previousStatus,
+          balance: Math.max(invoice.balance, 0),
+          overpayment: invoice.balance < 0 ? -invoice.balance : 0,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'issue_credit_note',
+    {
+      description: "Credit part or all of an issued invoice. The amount is gross; its tax share follows the invoice's tax-to-total ratio.",
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+        amount: z.number().positive().describe('Gross amount to credit, in the invoice currency'),
+        reason: z.string().describe('Reason for the credit'),
+        issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Issue date (YYYY-MM-DD, default today)'),
+      },
+      outputSchema: toolOutput({
+        creditNote: z.object({ id: z.string(), amount: z.number() }).passthrough(),
+        invoiceId: z.string(),
+        invoiceStatus: z.string(),
+        previousStatus: z.string(),
+        balance: z.number(),
+      }),
+    },
+    async (args, extra) => {
+      try {
+        const { creditNote, invoice, previousStatus } = issueCreditNote(
+          args.invoiceId,
+          { amount: args.amount, reason: args.reason, issue_date: args.issueDate },
+          resolveActor(extra) ?? 'Agent'
+        )
+        return toolResult({
+          message: `Credit note ${creditNote.id} issued against ${invoice.id}`,
+          creditNote,
+          invoiceId: invoice.id,
+          invoiceStatus: invoice.status,
+          previousStatus,
+          balance: invoice.balance,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'cancel_invoice',
+    {
+      description: 'Cancel an invoice that has no payments against it and close its collection record.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+        reason: z.string().describe('Reason for cancelling'),
+      },
+      outputSchema: toolOutput({
+        invoiceId: z.string(),
+        status: z.string(),
+        previousStatus: z.string(),
+      }),
+    },
+    async (args, extra) => {
+      try {
+        const { invoice, previousStatus } = cancelInvoice(args.invoiceId, args.reason, resolveActor(extra) ?? 'Agent')
+        return toolResult({
+          message: `Invoice ${invoice.id} cancelled`,
+          invoiceId: invoice.id,
+          status: invoice.status,
+          previousStatus,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'send_payment_reminder',
+    {
+      description: 'Send a payment reminder for an open invoice now, or schedule it for a future date with the dunning scheduler.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+        reminderType: z.string().optional().describe('Reminder type (default manual)'),
+        sendDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Send on this date instead of now (YYYY-MM-DD)'),
+      },
+      outputSchema: toolOutput({
+        status: z.enum(['sent', 'scheduled']),
+        notification_id: z.string().optional(),
+      }),
+    },
+    async (args, extra) => {
+      try {
+        const result = await requestReminder(
+          args.invoiceId,
+          { reminder_type: args.reminderType, send_date: args.sendDate },
+          resolveActor(extra) ?? 'Agent'
+        )
+        return toolResult({ ...result })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'get_collection_status',
+    {
+      description: 'Get the collection status of an invoice: last action, next action due and the collection notes.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+      },
+      outputSchema: toolOutput({
+        invoice_id: z.string(),
+        collection_status: z.enum(['Open', 'In Progress', 'Closed']),
+        last_action: z.string(),
+        next_action_due: z.string(),
+        notes: z.array(collectionNoteSchema),
+      }),
+    },
+    async (args) => {
+      try {
+        const status = collectionStatus(args.invoiceId)
+        return toolResult({ message: `Collection for ${status.invoice_id} is ${status.collection_status}`, ...status })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'log_collection_action',
+    {
+      description: 'Log a collection action (call, email, promise to pay, dispute) on an invoice.',
+      inputSchema: {
+        invoiceId: z.string().describe('Invoice ID'),
+        action: z.string().describe('Action taken'),
+        comment: z.string().optional().describe('Details'),
+      },
+      outputSchema: toolOutput({
+        invoiceId: z.string(),
+        lastAction: z.string(),
+      }),
+    },
+    async (args, extra) => {
+      try {
+        const collection = logCollectionAction(args.invoiceId, args.action, args.comment ?? '', resolveActor(extra) ?? 'Agent')
+        return toolResult({
+          message: 'Collection action logged successfully',
+          invoiceId: collection.invoice_id,
+          lastAction: collection.last_action,
+        })
+      } catch (error) {
+        return serviceFailure(error)
+      }
+    }
+  )
+
+  // Resources: browse and subscribe to records instead of polling the status tools. Each
+  // collection is readable by the roles of the tool that reads the same record.
+  registerResources(server, [
+    {
+      kind: 'onboarding',
+      title: 'Onboarding records',
+      description: 'onboarding processes: approvals, provisioning, compliance, workflow progress and deadlines',
+      variable: 'employeeId',
+      records: onboardingRecords,
+      idOf: (r) => r.employeeId,
+      roles: toolRoles.get_onboarding_status,
+      summary: (r) => ({ name: `${r.employee.name} (${r.employeeId})`, description: `Onboarding ${r.status}, joining ${r.employee.dateOfJoining}` }),
+      view: onboardingStatus,
+    } satisfies ResourceCollection<OnboardingRecord>,
+    {
+      kind: 'offboarding',
+      title: 'Offboarding records',
+      description: 'offboarding processes: approvals, deprovisioning, clearance, workflow progress and deadlines',
+      variable: 'employeeId',
+      records: offboardingRecords,
+      idOf: (r) => r.employeeId,
+      roles: toolRoles.get_offboarding_status,
+      summary: (r) => ({ name: `${r.employeeName} (${r.employeeId})`, description: `Offboarding ${r.status}, last working day ${r.lastWorkingDay}` }),
+      view: offboardingStatus,
+    } satisfies ResourceCollection<OffboardingRecord>,
+    {
+      kind: 'employee',
+      title: 'Employees',
+      description: 'employees in the registry with their system access',
+      variable: 'employeeId',
+      records: employees,
+      idOf: (e) => e.id,
+      roles: toolRoles.get_employee_details,
+      summary: (e) => ({ name: `${e.name} (${e.id})`, description: `${e.designation}, ${e.department}` }),
+      view: employeeView,
+    } satisfies ResourceCollection<EmployeeRecord>,
+    {
+      kind: 'po',
+      title: 'Purchase orders',
+      description: 'purchase orders with their approval status and history',
+      variable: 'poId',
+      records: purchaseOrders,
+      idOf: (po) => po.id,
+      roles: toolRoles.list_pending_pos,
+      summary: (po) => ({ name: po.id, description: `${po.details}: ${po.currency} ${po.amount}, ${po.status}` }),
+    } satisfies ResourceCollection<PurchaseOrder>,
+    {
+      kind: 'invoice',
+      title: 'Invoices',
+      description: 'invoices with payments, credit notes, allowed next statuses and collection status',
+      variable: 'id',
+      records: invoices,
+      idOf: (inv) => inv.id,
+      related: [collections],
+      roles: toolRoles.get_invoice,
+      summary: (inv) => ({ name: inv.id, description: `${inv.customer_id}: ${inv.currency} ${inv.total_amount.toFixed(2)}, ${inv.status}` }),
+      view: invoiceView,
+    } satisfies ResourceCollection<Invoice>,
+  ])
+
+  // Prompts: guided conversations an agent can offer its user. Each one embeds the current
+  // state of the records it is about, read through the same views as the resources.
+
+  const instruction = (text: string) => ({ role: 'user' as const, content: { type: 'text' as const, text } })
+
+  const embedded = (uri: string, value: unknown) => ({
+    role: 'user' as const,
+    content: {
+      type: 'resource' as const,
+      resource: { uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) },
+    },
+  })
 
-server.tool(
-  'get_onboarding_status',
-  'Check the current status of an onboarding process.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = onboardingRecords.get(employeeId)
+  const startsWith = (values: string[], prefix: string) =>
+    values.filter((value) => value.toLowerCase().startsWith(prefix.toLowerCase()))
+
+  // '10 days before the date of joining', 'on the date of joining'
+  const relativeDue = (days: number, anchor: string) =>
+    days === 0 ? `on ${anchor}` : `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days < 0 ? 'before' : 'after'} ${anchor}`
+
+  const plannedChecklist = (steps: WorkflowDefinition['steps'], anchor: string) =>
+    steps.map((s) => `- ${s.label ?? s.id}${s.dueDays === undefined ? '' : `, due ${relativeDue(s.dueDays, anchor)}`}`).join('\n')
+
+  // Steps of a running process, ticked off, with due dates where the anchor date allows them
+  const progressChecklist = (
+    workflow: { definition: WorkflowDefinition },
+    progress: WorkflowProgress,
+    deadlines: StepDeadline[]
+  ) =>
+    workflow.definition.steps
+      .filter((s) => progress.requiredSteps.includes(s.id))
+      .map((s) => {
+        const deadline = deadlines.find((d) => d.step === s.id)
+        const done = !progress.pendingSteps.includes(s.id)
+        const due = deadline && !done ? `, due ${deadline.dueDate}${deadline.state === 'overdue' ? ' (OVERDUE)' : deadline.state === 'at_risk' ? ' (at risk)' : ''}` : ''
+        return `- [${done ? 'x' : ' '}] ${s.label ?? s.id}${due}`
+      })
+      .join('\n')
+
+  const notFound = (message: string) => new McpError(ErrorCode.InvalidParams, message)
+
+  const employmentTypes = [
+    'Full-time',
+    ...workflowDefinitions.onboarding.variants.flatMap((v) => (v.match.employmentType ? [v.match.employmentType] : [])),
+  ]
+
+  server.prompt(
+    'onboard_new_hire',
+    'Walk a hiring manager through the details initiate_onboarding needs and the steps that follow, or pick up an onboarding already under way.',
+    {
+      employeeId: completable(
+        z.string().optional().describe('Resume the onboarding of this employee instead of starting a new one'),
+        (value) => startsWith(onboardingRecords.all().map((r) => r.employeeId), value ?? '')
+      ),
+      name: z.string().optional().describe("New hire's full name, if already known"),
+      employmentType: completable(
+        z.string().optional().describe('Employment type, which decides the steps that apply'),
+        (value) => startsWith(employmentTypes, value ?? '')
+      ),
+    },
+    ({ employeeId, name, employmentType }) => {
+      if (employeeId) {
+        const record = onboardingRecords.get(employeeId)
+        if (!record) throw notFound(`No onboarding found for employee ${employeeId}`)
+        const status = onboardingStatus(record)
+
+        return {
+          description: `Continue onboarding ${record.employee.name} (${record.employeeId})`,
+          messages: [
+            instruction(
+              [
+                `Help me continue onboarding ${record.employee.name} (${record.employeeId}), ${record.employee.designation} in ${record.employee.department}, joining on ${record.employee.dateOfJoining}. The onboarding is ${record.status}; its full record is attached.`,
+                `Checklist:\n${progressChecklist(onboardingWorkflow, status.workflow, status.deadlines)}`,
+                `Actions the workflow allows now: ${status.workflow.allowedActions.join(', ') || 'none'}.`,
+                'Summarise where things stand, starting with anything overdue. Then propose the next tool call (approve_onboarding, upload_document and verify_document, provision_systems, enroll_benefits, check_onboarding_compliance or complete_onboarding) and wait for my go-ahead before making it.',
+              ].join('\n\n')
+            ),
+            embedded(`nexus://onboarding/${encodeURIComponent(record.employeeId)}`, status),
+          ],
+        }
+      }
+
+      const fields = Object.entries(newHireFields)
+        .map(([field, schema]) => `- ${field}: ${schema.description}${schema.isOptional() ? '' : ' (required)'}`)
+        .join('\n')
+      const planned = onboardingWorkflow.plannedSteps({ employmentType })
+      const labelOf = (id: string) => workflowDefinitions.onboarding.steps.find((s) => s.id === id)?.label ?? id
+      const variantNote = employmentType
+        ? ''
+        : `\n\nThe employment type changes these steps: ${workflowDefinitions.onboarding.variants
+            .map((v) => `${Object.values(v.match).join('/')} hires skip ${v.skip.map(labelOf).join(' and ')}`)
+            .join('; ')}.`
 
-    if (!record) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Employee not found' }),
-          },
+        description: `Onboard ${name ?? 'a new hire'}`,
+        messages: [
+          instruction(
+            [
+              `Help me onboard ${name ?? 'a new hire'}${employmentType ? ` (${employmentType})` : ''}. Ask me for these details a few at a time, and read them back to me before going on:\n${fields}`,
+              'Once the required details are known, call validate_onboarding_data and resolve anything it reports, then call initiate_onboarding. If the person turns out to be registered already, show me the existing employee instead of creating a duplicate.',
+              `After that, these steps follow${planned.variant ? ` for ${planned.variant} hires` : ''}:\n${plannedChecklist(planned.steps, 'the date of joining')}${variantNote}`,
+            ].join('\n\n')
+          ),
         ],
       }
     }
+  )
+
+  server.prompt(
+    'offboard_employee',
+    "Walk through offboarding an employee: what they have access to, what they still hold and the checklist, or where an offboarding already under way stands.",
+    {
+      employeeId: completable(z.string().describe('Employee ID'), (value) => startsWith(employees.all().map((e) => e.id), value ?? '')),
+      lastWorkingDay: z.string().optional().describe('Last working day (YYYY-MM-DD), if already agreed'),
+      reason: z.string().optional().describe('Reason for leaving, if already known'),
+    },
+    ({ employeeId, lastWorkingDay, reason }) => {
+      const employee = employees.get(employeeId)
+      if (!employee) throw notFound(`Employee ${employeeId} not found`)
+      const record = offboardingRecords.get(employeeId)
+      const systems = activeSystems(employee)
+      const held = outstandingAssets(employeeId)
+      const assetList = held.length > 0 ? held.map((a) => `${a.description} (${a.id})`).join(', ') : 'none'
+      const employeeResource = embedded(`nexus://employee/${encodeURIComponent(employee.id)}`, employeeView(employee))
+
+      if (record) {
+        const status = offboardingStatus(record)
+        return {
+          description: `Continue offboarding ${record.employeeName} (${record.employeeId})`,
+          messages: [
+            instruction(
+              [
+                `Help me finish offboarding ${record.employeeName} (${record.employeeId}), whose last working day is ${record.lastWorkingDay} (${record.reason}). The offboarding is ${record.status}; its record and the employee's are attached.`,
+                `Checklist:\n${progressChecklist(offboardingWorkflow, status.workflow, status.deadlines)}`,
+                `Systems still active: ${systems.join(', ') || 'none'}. Assets still to recover: ${assetList}.`,
+                `Actions the workflow allows now: ${status.workflow.allowedActions.join(', ') || 'none'}.`,
+                'Summarise where things stand, starting with anything overdue. Then propose the next tool call (approve_offboarding, deprovision_systems, return_asset, process_final_payroll, check_offboarding_compliance or complete_offboarding) and wait for my go-ahead before making it.',
+              ].join('\n\n')
+            ),
+            embedded(`nexus://offboarding/${encodeURIComponent(record.employeeId)}`, status),
+            employeeResource,
+          ],
+        }
+      }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            employee: record.employee,
-            status: record.status,
-            approvals: record.approvals,
-            systemProvisioning: record.systemProvisioning,
-            compliance: record.compliance,
-            financeEnrollment: record.financeEnrollment,
-            auditTrail: record.auditTrail,
-          }, null, 2),
-        },
-      ],
-    }
-  }
-)
+      const planned = offboardingWorkflow.plannedSteps({ department: employee.department, reason })
+      const toConfirm = [
+        lastWorkingDay ? `the last working day (${lastWorkingDay})` : 'the last working day',
+        reason ? `the reason (${reason})` : 'the reason for leaving',
+      ]
 
-server.tool(
-  'get_offboarding_status',
-  'Check the current status of an offboarding process.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    const record = offboardingRecords.get(employeeId)
-
-    if (!record) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: false, error: 'Offboarding record not found' }),
-          },
+        description: `Offboard ${employee.name} (${employee.id})`,
+        messages: [
+          instruction(
+            [
+              `Help me offboard ${employee.name} (${employee.id}), ${employee.designation} in ${employee.department} reporting to ${employee.manager}. Their employee record is attached.`,
+              `Confirm ${toConfirm.join(' and ')} with me, then call initiate_offboarding.`,
+              `Systems to revoke: ${systems.join(', ') || 'none'}. Assets to recover: ${assetList}.`,
+              `After that, this checklist follows:\n${plannedChecklist(planned.steps, 'the last working day')}`,
+            ].join('\n\n')
+          ),
+          employeeResource,
         ],
       }
     }
+  )
+
+  const APPROVAL_SCOPES = ['onboarding', 'offboarding', 'po', 'all']
+
+  server.prompt(
+    'review_pending_approvals',
+    'Go through the onboarding, offboarding and purchase order approvals waiting on the caller, one decision at a time.',
+    {
+      scope: completable(
+        z.string().optional().describe('onboarding, offboarding, po or all (default all)'),
+        (value) => startsWith(APPROVAL_SCOPES, value ?? '')
+      ),
+    },
+    ({ scope = 'all' }, extra) => {
+      if (!APPROVAL_SCOPES.includes(scope)) throw notFound(`Unknown scope ${scope}; use ${APPROVAL_SCOPES.join(', ')}`)
+      const identity = identityFromAuthInfo(extra.authInfo)
+      // Without a token every pending approval is listed; with one, those the caller's roles can give
+      const mayApprove = (roles: string[]) => !identity || hasAnyRole(identity, roles)
+      const sidesWaiting = (approvals: Record<'hr' | 'manager', { approved: boolean }>) =>
+        (['hr', 'manager'] as const).filter((side) => !approvals[side].approved && mayApprove([side === 'hr' ? 'HR' : 'Manager']))
+
+      const lines: string[] = []
+      const resources: Array<ReturnType<typeof embedded>> = []
+
+      if (scope === 'onboarding' || scope === 'all') {
+        onboardingRecords
+          .filter((r) => onboardingWorkflow.can(r, 'approve') && sidesWaiting(r.approvals).length > 0)
+          .forEach((r) => {
+            lines.push(`- Onboarding ${r.employee.name} (${r.employeeId}), joining ${r.employee.dateOfJoining}: awaiting ${sidesWaiting(r.approvals).join(' and ')} approval`)
+            resources.push(embedded(`nexus://onboarding/${encodeURIComponent(r.employeeId)}`, onboardingStatus(r)))
+          })
+      }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            employeeId,
-            employeeName: record.employeeName,
-            status: record.status,
-            lastWorkingDay: record.lastWorkingDay,
-            approvals: record.approvals,
-            systemDeprovisioning: record.systemDeprovisioning,
-            compliance: record.compliance,
-            finalPayroll: record.finalPayroll,
-            auditTrail: record.auditTrail,
-          }, null, 2),
-        },
-      ],
-    }
-  }
-)
-
-server.tool(
-  'list_pending_approvals',
-  'Get all pending onboarding/offboarding approvals.',
-  {
-    type: z.enum(['onboarding', 'offboarding', 'all']).describe('Type of approvals to list'),
-  },
-  async (args) => {
-    const type = args.type
-    const pendingOnboarding: any[] = []
-    const pendingOffboarding: any[] = []
-
-    if (type === 'onboarding' || type === 'all') {
-      onboardingRecords.forEach((record) => {
-        if (!record.approvals.hr.approved || !record.approvals.manager.approved) {
-          pendingOnboarding.push({
-            employeeId: record.employeeId,
-            employeeName: record.employee.name,
-            type: 'onboarding',
-            status: record.status,
-            pendingApprovals: {
-              hr: !record.approvals.hr.approved,
-              manager: !record.approvals.manager.approved,
-            },
+      if (scope === 'offboarding' || scope === 'all') {
+        offboardingRecords
+          .filter((r) => offboardingWorkflow.can(r, 'approve') && sidesWaiting(r.approvals).length > 0)
+          .forEach((r) => {
+            lines.push(`- Offboarding ${r.employeeName} (${r.employeeId}), last working day ${r.lastWorkingDay}: awaiting ${sidesWaiting(r.approvals).join(' and ')} approval`)
+            resources.push(embedded(`nexus://offboarding/${encodeURIComponent(r.employeeId)}`, offboardingStatus(r)))
           })
-        }
-      })
-    }
+      }
 
-    if (type === 'offboarding' || type === 'all') {
-      offboardingRecords.forEach((record) => {
-        if (!record.approvals.manager.approved || !record.approvals.hr.approved) {
-          pendingOffboarding.push({
-            employeeId: record.employeeId,
-            employeeName: record.employeeName,
-            type: 'offboarding',
-            status: record.status,
-            lastWorkingDay: record.lastWorkingDay,
-            pendingApprovals: {
-              manager: !record.approvals.manager.approved,
-              hr: !record.approvals.hr.approved,
-            },
+      if (scope === 'po' || scope === 'all') {
+        pendingPurchaseOrders()
+          .filter((po) => mayApprove([po.currentApprover]))
+          .forEach((po) => {
+            lines.push(`- ${po.id} from ${po.requester}: ${po.details}, ${po.currency} ${po.amount} (${po.region}), awaiting ${po.currentApprover}`)
+            resources.push(embedded(`nexus://po/${encodeURIComponent(po.id)}`, po))
           })
-        }
-      })
-    }
+      }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            pendingOnboarding,
-            pendingOffboarding,
-            totalPending: pendingOnboarding.length + pendingOffboarding.length,
-          }, null, 2),
-        },
-      ],
-    }
-  }
-)
+      const who = identity ? `${identity.name} (${identity.roles.join(', ')})` : 'me'
+      if (lines.length === 0) {
+        return {
+          description: 'No pending approvals',
+          messages: [instruction(`No ${scope === 'all' ? '' : `${scope} `}approvals are waiting for ${who}. Tell me so; there is nothing to decide.`)],
+        }
+      }
 
-server.tool(
-  'get_employee_details',
-  'Retrieve employee information from onboarding or offboarding records.',
-  {
-    employeeId: z.string().describe('Employee ID'),
-  },
-  async (args) => {
-    const employeeId = args.employeeId
-    
-    // Check onboarding records first
-    const onboardingRecord = onboardingRecords.get(employeeId)
-    if (onboardingRecord) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              source: 'onboarding',
-              employee: onboardingRecord.employee,
-              status: onboardingRecord.status,
-            }, null, 2),
-          },
+        description: `${lines.length} pending approval${lines.length === 1 ? '' : 's'}`,
+        messages: [
+          instruction(
+            [
+              `These approvals are waiting for ${who}; each record is attached:\n${lines.join('\n')}`,
+              'Take them one at a time. For each, summarise what I am approving and anything that should give me pause (missing documents, SLA risk, unusual amounts), and ask for my decision. Only then call approve_onboarding or approve_offboarding (with approved true or false), or approve_po or reject_po for purchase orders. A rejection needs my comments.',
+            ].join('\n\n')
+          ),
+          ...resources,
         ],
       }
     }
+  )
+
+  const CHASE_TONES = ['friendly', 'firm', 'final']
+
+  const isChaseable = (invoice: Invoice) => (invoice.status === 'Sent' || invoice.status === 'Overdue') && invoice.balance > 0
+
+  server.prompt(
+    'chase_overdue_invoice',
+    'Draft a follow-up for an unpaid invoice from its balance, dunning history and collection notes, then send or log it.',
+    {
+      invoiceId: completable(z.string().describe('Invoice ID'), (value) => startsWith(invoices.filter(isChaseable).map((inv) => inv.id), value ?? '')),
+      tone: completable(
+        z.string().optional().describe('friendly, firm or final (default: whatever fits how overdue it is)'),
+        (value) => startsWith(CHASE_TONES, value ?? '')
+      ),
+    },
+    ({ invoiceId, tone }) => {
+      const invoice = invoices.get(invoiceId)
+      if (!invoice) throw notFound(`Invoice ${invoiceId} not found`)
+      if (!isChaseable(invoice)) {
+        throw notFound(`Invoice ${invoiceId} is ${invoice.status} with a balance of ${invoice.currency} ${invoice.balance.toFixed(2)}; there is nothing to chase`)
+      }
+      if (tone && !CHASE_TONES.includes(tone)) throw notFound(`Unknown tone ${tone}; use ${CHASE_TONES.join(', ')}`)
+
+      const customer = customers.get(invoice.customer_id)
+      const contact = customer && (customer.contacts.find((c) => c.role === 'billing') ?? customer.contacts[0])
+      const daysOverdue = Math.max(daysBetween(invoice.due_date, new Date().toISOString().slice(0, 10)), 0)
+      const collection = collections.get(invoice.id)
+      const history = collection
+        ? `Collections is ${collection.status}; the last action was ${collection.last_action || 'none'} and the last dunning reminder was ${collection.dunning_stage ?? 'none'}. The collection notes are in the attached invoice.`
+        : 'No collection activity has been logged yet.'
 
-    // Check offboarding records
-    const offboardingRecord = offboardingRecords.get(employeeId)
-    if (offboardingRecord) {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              source: 'offboarding',
-              employeeId: offboardingRecord.employeeId,
-              employeeName: offboardingRecord.employeeName,
-              department: offboardingRecord.department,
-              lastWorkingDay: offboardingRecord.lastWorkingDay,
-              status: offboardingRecord.status,
-            }, null, 2),
-          },
+        description: `Chase ${invoice.id} (${invoice.currency} ${invoice.balance.toFixed(2)}, ${daysOverdue} days overdue)`,
+        messages: [
+          instruction(
+            [
+              `Help me chase invoice ${invoice.id}: ${customer?.name ?? invoice.customer_id} owes ${invoice.currency} ${invoice.balance.toFixed(2)} of ${invoice.total_amount.toFixed(2)}, due on ${invoice.due_date} and ${daysOverdue} days overdue. ${history}`,
+              `Draft a ${tone ?? 'suitably toned (given how overdue it is)'} follow-up to ${contact ? `${contact.name} <${contact.email}>` : 'the customer'}. Build on earlier reminders, payments and promises to pay rather than repeating them, and show me the draft first.`,
+              'Once I approve it, send it with send_payment_reminder (or schedule it with sendDate), and record any call, promise to pay or dispute with log_collection_action. If the customer disputes part of the amount, suggest issue_credit_note instead of pressing for the full balance.',
+            ].join('\n\n')
+          ),
+          embedded(`nexus://invoice/${encodeURIComponent(invoice.id)}`, invoiceView(invoice)),
         ],
       }
     }
+  )
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ success: false, error: 'Employee not found' }),
-        },
-      ],
-    }
-  }
-)
+  return server
+}
 
-// Export server for use in other transports
-export { server }
+export { slaMonitor }
 
 // Start server if run directly
 import { fileURLToPath } from 'url'
@@ -1157,7 +2742,8 @@ const isMainModule = process.argv[1] === __filename
 if (isMainModule) {
   async function main() {
     const transport = new StdioServerTransport()
-    await server.connect(transport)
+    await createServer().connect(transport)
+    slaMonitor.start(config.slaIntervalMs)
     console.error('Nexus Onboarding/Offboarding MCP Server running on stdio')
   }
 
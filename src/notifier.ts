@@ -0,0 +1,55 @@
+import fs from 'fs'
+import path from 'path'
+import { config } from './config.js'
+
+export interface Notification {
+  channel: 'email'
+  to: string
+  subject: string
+  body: string
+  template: string
+  invoice_id?: string
+  employee_id?: string
+}
+
+export interface SentNotification extends Notification {
+  id: string
+  sent_at: string
+}
+
+// Delivery backend for reminders and escalations. Swap in an SMTP/SES/Graph
+// implementation in production; the local ones below need no external service.
+export interface Notifier {
+  send(notification: Notification): Promise<SentNotification>
+}
+
+let sequence = 0
+const stamp = (notification: Notification): SentNotification => ({
+  ...notification,
+  id: `NTF-${Date.now()}-${++sequence}`,
+  sent_at: new Date().toISOString(),
+})
+
+// Writes every notification to <outboxDir>/<id>.json for inspection or pickup by a mailer
+export class OutboxNotifier implements Notifier {
+  constructor(private dir: string) {}
+
+  async send(notification: Notification): Promise<SentNotification> {
+    const sent = stamp(notification)
+    await fs.promises.mkdir(this.dir, { recursive: true })
+    await fs.promises.writeFile(path.join(this.dir, `${sent.id}.json`), JSON.stringify(sent, null, 2))
+    return sent
+  }
+}
+
+export class ConsoleNotifier implements Notifier {
+  async send(notification: Notification): Promise<SentNotification> {
+    const sent = stamp(notification)
+    console.log(`[Notification] To: ${sent.to}, Subject: ${sent.subject}`)
+    return sent
+  }
+}
+
+export function createNotifier(): Notifier {
+  return config.notifier === 'console' ? new ConsoleNotifier() : new OutboxNotifier(config.outboxDir)
+}
@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import { isDate } from './dates.js'
+import { missingEmployeeFields, type Employee } from './employees.js'
+
+// Largest batch accepted in one request
+export const MAX_IMPORT_ROWS = 500
+
+export type EmployeeInput = Omit<Employee, 'id'>
+
+const FIELDS: Array<keyof EmployeeInput> = [
+  'name',
+  'email',
+  'dateOfJoining',
+  'department',
+  'designation',
+  'manager',
+  'workLocation',
+  'contactPhone',
+  'employmentType',
+  'projectAssignment',
+]
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+export interface ImportRowResult {
+  row: number
+  status: 'created' | 'valid' | 'invalid'
+  employeeId?: string
+  name?: string
+  email?: string
+  errors: string[]
+}
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (quoted) throw new ImportError('CSV has an unterminated quoted field')
+  if (cell || row.length) rows.push([...row, cell])
+
+  return rows.filter((r) => r.some((c) => c.trim()))
+}
+
+// Column names match fields ignoring case, spaces and punctuation ("Date of Joining", "date_of_joining")
+const fieldFor = (column: string) => {
+  const key = column.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return FIELDS.find((f) => f.toLowerCase() === key)
+}
+
+// Accept CSV text or JSON rows; columns that match no field are ignored and reported
+export function parseOnboardingBatch(input: { csv?: string; rows?: Array<Record<string, unknown>> }) {
+  let raw: Array<Record<string, unknown>>
+  if (input.csv !== undefined && input.rows !== undefined) {
+    throw new ImportError('Provide either csv or rows, not both')
+  } else if (input.csv !== undefined) {
+    const [header, ...lines] = parseCsv(input.csv.replace(/^\uFEFF/, ''))
+    if (!header) throw new ImportError('CSV is empty')
+    raw = lines.map((cells) => Object.fromEntries(header.map((column, i) => [column.trim(), cells[i] ?? ''])))
+  } else if (input.rows !== undefined) {
+    raw = input.rows
+  } else {
+    throw new ImportError('csv or rows is required')
+  }
+
+  if (raw.length === 0) throw new ImportError('The batch has no rows')
+  if (raw.length > MAX_IMPORT_ROWS) throw new ImportError(`The batch has ${raw.length} rows; the limit is ${MAX_IMPORT_ROWS}`)
+
+  const ignoredColumns = new Set<string>()
+  const rows = raw.map((entry) => {
+    const row: Record<string, unknown> = {}
+    Object.entries(entry).forEach(([column, value]) => {
+      const field = fieldFor(column)
+      if (field) row[field] = value
+      else ignoredColumns.add(column)
+    })
+    return row
+  })
+  return { rows, ignoredColumns: [...ignoredColumns] }
+}
+
+// The checks validate_onboarding_data runs, plus the formats initiate_onboarding enforces
+export function validateImportRow(row: Record<string, unknown>): { employee?: EmployeeInput; errors: string[] } {
+  const errors: string[] = []
+  const values: Record<string, string> = {}
+  FIELDS.forEach((field) => {
+    const value = row[field]
+    if (value === undefined || value === null) return
+    if (typeof value !== 'string' && typeof value !== 'number') errors.push(`${field} must be text`)
+    else if (String(value).trim()) values[field] = String(value).trim()
+  })
+
+  missingEmployeeFields(values).forEach((field) => errors.push(`${field} is required`))
+  if (values.email && !z.string().email().safeParse(values.email).success) errors.push(`email '${values.email}' is not a valid address`)
+  if (values.dateOfJoining && !isDate(values.dateOfJoining)) errors.push('dateOfJoining must be YYYY-MM-DD')
+
+  return errors.length ? { errors } : { employee: values as unknown as EmployeeInput, errors }
+}
+
+// Validate every row. A row repeating an earlier row's email, or its name and date of joining,
+// is invalid: the registry check would reject it once the earlier row is created, so a dry
+// run must too.
+export function validateImportBatch(rows: Array<Record<string, unknown>>) {
+  const norm = (value: unknown) => (typeof value === 'string' ? value : '').trim().toLowerCase().replace(/\s+/g, ' ')
+  const seenEmails = new Map<string, number>()
+  const seenPeople = new Map<string, number>()
+  return rows.map((row, i) => {
+    const result = validateImportRow(row)
+    const email = norm(row.email)
+    const person = norm(row.name) && norm(row.dateOfJoining) ? `${norm(row.name)}|${norm(row.dateOfJoining)}` : ''
+    if (email && seenEmails.has(email)) {
+      result.errors.push(`email duplicates row ${seenEmails.get(email)}`)
+      result.employee = undefined
+    } else if (person && seenPeople.has(person)) {
+      result.errors.push(`name and date of joining duplicate row ${seenPeople.get(person)}`)
+      result.employee = undefined
+    } else {
+      if (email) seenEmails.set(email, i + 1)
+      if (person) seenPeople.set(person, i + 1)
+    }
+    return { row: i + 1, ...result }
+  })
+}
@@ -0,0 +1,195 @@
+import { hasAnyRole, type Identity } from './auth.js'
+import { evaluateApprovalMatrix } from './approval-matrix.js'
+import { createRepository } from './store.js'
+
+// Mock Data for Purchase Orders
+export interface PurchaseOrder {
+  id: string
+  amount: number
+  region: string
+  currency: string
+  category?: string
+  requester: string
+  status: 'Pending' | 'Approved' | 'Rejected'
+  currentApprover: string
+  details: string
+  history: Array<{ action: string; actor: string; date: string; comments?: string }>
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409 | 422 = 400) {
+    super(message)
+    this.name = 'PurchaseOrderError'
+  }
+}
+
+export const purchaseOrders = createRepository<PurchaseOrder>('purchaseOrders', (po) => po.id, [
+  {
+    id: 'PO-1001',
+    amount: 5000,
+    region: 'US',
+    currency: 'USD',
+    category: 'Office Supplies',
+    requester: 'Alice Smith',
+    status: 'Pending',
+    currentApprover: 'CPM',
+    details: 'Office Supplies for Q4',
+    history: [],
+  },
+  {
+    id: 'PO-1002',
+    amount: 15000,
+    region: 'EMEA',
+    currency: 'EUR',
+    category: 'Hardware',
+    requester: 'Bob Jones',
+    status: 'Pending',
+    currentApprover: 'CPH',
+    details: 'New Server Hardware',
+    history: [],
+  },
+  {
+    id: 'PO-1003',
+    amount: 75000,
+    region: 'APAC',
+    currency: 'USD',
+    category: 'Services',
+    requester: 'Charlie Kim',
+    status: 'Pending',
+    currentApprover: 'Geo Controller',
+    details: 'Consulting Services Contract',
+    history: [],
+  },
+])
+
+// Who is acting: the name recorded in the history, and the authenticated identity when
+// there is one (an authenticated caller must hold the PO's current approver role)
+interface PoActor {
+  name: string
+  identity?: Identity
+}
+
+const findPurchaseOrder = (poId: string) => {
+  const po = purchaseOrders.get(poId)
+  if (!po) throw new PurchaseOrderError('Purchase Order not found', 404)
+  return po
+}
+
+export const pendingPurchaseOrders = () => purchaseOrders.filter((po) => po.status === 'Pending')
+
+// Approve at the current level: forward to the next approver in the matrix, or finalize
+export function approvePurchaseOrder(poId: string, actor: PoActor, comments?: string) {
+  const po = findPurchaseOrder(poId)
+
+  if (po.status !== 'Pending') {
+    throw new PurchaseOrderError(`PO is already ${po.status}`)
+  }
+
+  if (actor.identity && !hasAnyRole(actor.identity, [po.currentApprover])) {
+    throw new PurchaseOrderError(`PO ${po.id} is awaiting ${po.currentApprover} approval`, 403)
+  }
+
+  // Check matrix to see if there is a next approver
+  const evaluation = evaluateApprovalMatrix(po)
+  if (!evaluation) {
+    throw new PurchaseOrderError(`No approval rule matches PO ${po.id} (${po.region}, ${po.currency}, ${po.amount})`, 422)
+  }
+  const matrix = evaluation.approvers
+  const currentLevelIndex = matrix.indexOf(po.currentApprover)
+
+  let message = 'PO Approved'
+  let nextApprover = null
+
+  if (currentLevelIndex !== -1 && currentLevelIndex < matrix.length - 1) {
+    // Move to next approver
+    nextApprover = matrix[currentLevelIndex + 1]
+    po.currentApprover = nextApprover
+    message = `Approved by ${actor.name}. Forwarded to ${nextApprover}.`
+  } else {
+    // Final approval
+    po.status = 'Approved'
+    po.currentApprover = 'None'
+    message = `PO ${po.id} fully approved.`
+  }
+
+  po.history.push({
+    action: 'Approve',
+    actor: actor.name,
+    date: new Date().toISOString(),
+    comments,
+  })
+  purchaseOrders.save(po)
+
+  return { po, message, nextApprover, evaluation }
+}
+
+export function rejectPurchaseOrder(poId: string, actor: PoActor, comments: string) {
+  if (!comments) {
+    throw new PurchaseOrderError('Comments are required for rejection')
+  }
+
+  const po = findPurchaseOrder(poId)
+
+  if (actor.identity && !hasAnyRole(actor.identity, [po.currentApprover])) {
+    throw new PurchaseOrderError(`PO ${po.id} is awaiting ${po.currentApprover} approval`, 403)
+  }
+
+  po.status = 'Rejected'
+  po.currentApprover = 'None'
+  po.history.push({
+    action: 'Reject',
+    actor: actor.name,
+    date: new Date().toISOString(),
+    comments,
+  })
+  return purchaseOrders.save(po)
+}
+
+export function reassignPurchaseOrder(poId: string, newApproverId: string, actor: PoActor) {
+  const po = findPurchaseOrder(poId)
+
+  if (actor.identity && !hasAnyRole(actor.identity, [po.currentApprover])) {
+    throw new PurchaseOrderError(`Only the current approver (${po.currentApprover}) can reassign PO ${po.id}`, 403)
+  }
+
+  const previousApprover = po.currentApprover
+  po.currentApprover = newApproverId
+
+  po.history.push({
+    action: 'Reassign',
+    actor: actor.name,
+    date: new Date().toISOString(),
+    comments: `Reassigned from ${previousApprover} to ${newApproverId}`,
+  })
+  purchaseOrders.save(po)
+
+  return { po, previousApprover }
+}
+
+// Approval chain for an existing PO, or for a hypothetical region/amount/currency/category
+export function approvalChain(query: { poId?: string; region?: string; amount?: number; currency?: string; category?: string }) {
+  let region = query.region
+  let amount = query.amount ?? NaN
+  let currency = query.currency || 'USD'
+  let category = query.category
+
+  // If poId is provided, look it up
+  if (query.poId) {
+    const po = findPurchaseOrder(query.poId)
+    region = po.region
+    amount = po.amount
+    currency = po.currency
+    category = po.category
+  }
+
+  if (!region || isNaN(amount)) {
+    throw new PurchaseOrderError('Please provide poId OR (region and amount)')
+  }
+
+  const evaluation = evaluateApprovalMatrix({ region, amount, currency, category })
+  if (!evaluation) {
+    throw new PurchaseOrderError('No approval rule matches the given region, currency, category and amount', 404)
+  }
+
+  return { region, amount, currency, category, evaluation }
+}
@@ -0,0 +1,682 @@
+import { z } from 'zod'
+import { config } from './config.js'
+import { isDate } from './dates.js'
+import { createRepository, type Repository } from './store.js'
+import { createNotifier } from './notifier.js'
+import { createDunningEngine, loadDunningPolicy, type ScheduledReminder } from './dunning.js'
+import { billingEmail, customers, termsToDays } from './customers.js'
+import { FxRateMissingError, fxDifference, rateBetween } from './fx.js'
+import { calculateTax, UnknownTaxCodeError, type TaxBreakdownLine, type TaxedItem } from './tax.js'
+import { InvalidTransitionError, allowedTransitions, canTransition, transition, type InvoiceStatus } from './invoice-lifecycle.js'
+
+export class ReceivablesError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 | 502 = 400) {
+    super(message)
+    this.name = 'ReceivablesError'
+  }
+}
+
+export interface InvoiceItem {
+  description: string
+  quantity: number
+  unit_price: number
+  tax_code: string
+}
+
+export interface Invoice {
+  id: string
+  customer_id: string
+  invoice_date: string
+  due_date: string
+  line_items: TaxedItem[]
+  currency: string
+  payment_terms: string
+  status: InvoiceStatus
+  tax_jurisdiction: string
+  prices_include_tax: boolean
+  tax_exempt: boolean
+  tax_exemption_reason?: string
+  subtotal: number
+  tax_total: number
+  tax_breakdown: TaxBreakdownLine[]
+  total_amount: number // subtotal + tax_total
+  reporting_currency: string
+  fx_rate: number // reporting units per invoice currency unit on invoice_date (booked rate)
+  balance: number // total_amount minus net payments and credit notes; negative when overpaid (customer credit)
+  credited_amount: number // sum of credit notes issued against this invoice
+  payments: Payment[]
+  created_at?: string
+  sent_at?: string
+  cancelled_at?: string
+  cancelled_by?: string
+  cancellation_reason?: string
+}
+
+// A credit note reduces what the customer owes on the invoice it references
+export interface CreditNote {
+  id: string
+  invoice_id: string
+  customer_id: string
+  currency: string
+  issue_date: string
+  reason: string
+  subtotal: number
+  tax_total: number
+  amount: number // subtotal + tax_total
+  issued_by: string
+  issued_at: string
+}
+
+export const PAYMENT_METHODS = ['bank_transfer', 'wire', 'ach', 'card', 'check', 'cash', 'other'] as const
+
+export interface Payment {
+  id: string
+  type: 'payment' | 'refund'
+  amount: number
+  method: (typeof PAYMENT_METHODS)[number]
+  reference: string
+  payment_date: string
+  recorded_by: string
+  recorded_at: string
+  comments?: string
+  fx_rate: number // reporting units per invoice currency unit on payment_date
+  realized_fx: number // gain (+) / loss (-) in reporting currency versus the booked rate
+}
+
+export interface CollectionNote {
+  date: string
+  user: string
+  action: string
+  comment: string
+}
+
+export interface CollectionStatus {
+  invoice_id: string
+  status: 'Open' | 'In Progress' | 'Closed'
+  last_action: string
+  next_action_due: string
+  notes: CollectionNote[]
+  dunning_stage: string | null // last dunning policy step carried out
+  scheduled_reminders: ScheduledReminder[]
+}
+
+// Helper to price line items through the tax engine into the invoice's amount fields
+const priceInvoice = (items: InvoiceItem[], jurisdiction: string, pricesIncludeTax: boolean, exempt: boolean) => {
+  const tax = calculateTax(items, { jurisdiction, pricesIncludeTax, exempt })
+  return {
+    line_items: tax.line_items,
+    tax_jurisdiction: jurisdiction,
+    prices_include_tax: pricesIncludeTax,
+    tax_exempt: exempt,
+    subtotal: tax.subtotal,
+    tax_total: tax.tax_total,
+    tax_breakdown: tax.tax_breakdown,
+    total_amount: tax.total
+  }
+}
+
+const seedInvoice = priceInvoice(
+  [{ description: 'Consulting Services', quantity: 10, unit_price: 150, tax_code: 'VAT' }],
+  'US',
+  false,
+  false
+)
+
+export const invoices = createRepository<Invoice>('invoices', (inv) => inv.id, [
+  {
+    id: 'INV-2001',
+    customer_id: 'CUST-001',
+    invoice_date: '2023-10-01',
+    due_date: '2023-10-31',
+    currency: 'USD',
+    payment_terms: 'Net 30',
+    status: 'Overdue',
+    ...seedInvoice,
+    reporting_currency: 'USD',
+    fx_rate: 1,
+    balance: seedInvoice.total_amount,
+    credited_amount: 0,
+    payments: []
+  }
+])
+
+export const creditNotes = createRepository<CreditNote>('creditNotes', (cn) => cn.id)
+
+// Last invoice and credit note numbers issued, persisted so a number is never reissued,
+// even after the record holding it is deleted
+const documentSequences = createRepository<{ key: string; value: number }>('receivableSequences', (s) => s.key)
+
+// Next `<prefix>-<number>` id. A new sequence starts after the highest number in use.
+function nextDocumentId(prefix: string, firstNumber: number, records: Repository<{ id: string }>) {
+  const inUse = records.all().map((r) => Number(r.id.slice(prefix.length + 1))).filter(Number.isFinite)
+  const sequence = documentSequences.get(prefix) ?? { key: prefix, value: Math.max(firstNumber - 1, ...inUse) }
+  do {
+    sequence.value++
+  } while (records.has(`${prefix}-${sequence.value}`))
+  documentSequences.save(sequence)
+  return `${prefix}-${sequence.value}`
+}
+
+export const collections = createRepository<CollectionStatus>('collections', (c) => c.invoice_id, [
+  {
+    invoice_id: 'INV-2001',
+    status: 'In Progress',
+    last_action: 'Email Reminder',
+    next_action_due: '2023-11-15',
+    notes: [
+      { date: '2023-11-01', user: 'System', action: 'Email', comment: 'First reminder sent' }
+    ],
+    dunning_stage: 'friendly',
+    scheduled_reminders: []
+  }
+])
+
+const notifier = createNotifier()
+
+export const dunning = createDunningEngine({
+  invoices,
+  collections,
+  notifier,
+  policy: loadDunningPolicy(config.dunningPolicyFile),
+  escalationRecipient: config.collectionsTeamEmail,
+  recipientFor: (invoice) => {
+    const customer = customers.get(invoice.customer_id)
+    return (customer && billingEmail(customer)) || invoice.customer_id
+  }
+})
+
+// Invoice fields prepareInvoice reads; the route catalog and the create_invoice tool publish it
+export const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+export const invoiceInput = z.object({
+  customer_id: z.string(),
+  line_items: z.array(z.object({ description: z.string(), quantity: z.number().positive(), unit_price: z.number().nonnegative(), tax_code: z.string() })).min(1),
+  invoice_date: isoDate.optional(),
+  due_date: isoDate.optional(),
+  currency: z.string().length(3).optional(),
+  payment_terms: z.string().optional(),
+  tax_jurisdiction: z.string().optional(),
+  prices_include_tax: z.boolean().optional(),
+  tax_exempt: z.boolean().optional(),
+  tax_exemption_reason: z.string().optional(),
+})
+
+// Helper to validate invoice input and fill what it leaves out from the customer master;
+// shared by creation and draft edits
+const prepareInvoice = (input: Record<string, any>): { error: string } | { fields: Omit<Invoice, 'id' | 'status' | 'payments' | 'credited_amount'> } => {
+  const { customer_id, invoice_date, due_date, line_items, currency, payment_terms } = input
+  const { tax_jurisdiction, prices_include_tax, tax_exempt, tax_exemption_reason } = input
+
+  if (!customer_id || !line_items || line_items.length === 0) {
+    return { error: 'Missing required invoice fields' }
+  }
+
+  const customer = customers.get(customer_id)
+  if (!customer) {
+    return { error: `Customer ${customer_id} does not exist` }
+  }
+
+  const invalidItem = line_items.findIndex((item: InvoiceItem) =>
+    !item || typeof item.quantity !== 'number' || typeof item.unit_price !== 'number' || !item.tax_code)
+  if (invalidItem !== -1) {
+    return { error: `Line item ${invalidItem + 1} needs a numeric quantity and unit_price and a tax_code` }
+  }
+
+  const negativeItem = line_items.findIndex((item: InvoiceItem) => item.quantity <= 0 || item.unit_price < 0)
+  if (negativeItem !== -1) {
+    return { error: `Line item ${negativeItem + 1} needs a quantity above 0 and a unit_price of 0 or more` }
+  }
+
+  const exempt = tax_exempt ?? customer.tax_exempt
+  const exemptionReason = tax_exemption_reason ?? customer.tax_exemption_reason
+  if (exempt && !exemptionReason) {
+    return { error: 'tax_exemption_reason is required for tax-exempt invoices' }
+  }
+
+  const jurisdiction = tax_jurisdiction || customer.tax_jurisdiction || config.defaultTaxJurisdiction
+  const terms = payment_terms || customer.payment_terms
+  const issueDate = invoice_date || new Date().toISOString().slice(0, 10)
+  if (!isDate(issueDate) || (due_date && !isDate(due_date))) {
+    return { error: 'invoice_date and due_date must be valid YYYY-MM-DD dates' }
+  }
+  const dueDate = due_date || new Date(Date.parse(issueDate) + termsToDays(terms) * 86400000).toISOString().slice(0, 10)
+  if (dueDate < issueDate) {
+    return { error: `due_date ${dueDate} is before invoice_date ${issueDate}` }
+  }
+
+  const invoiceCurrency = (currency || customer.default_currency).toUpperCase()
+
+  let priced
+  let bookedRate
+  try {
+    priced = priceInvoice(line_items, jurisdiction, !!prices_include_tax, !!exempt)
+    bookedRate = rateBetween(invoiceCurrency, config.reportingCurrency, issueDate)
+  } catch (error) {
+    if (error instanceof UnknownTaxCodeError || error instanceof FxRateMissingError) {
+      return { error: error.message }
+    }
+    throw error
+  }
+
+  return {
+    fields: {
+      customer_id,
+      invoice_date: issueDate,
+      due_date: dueDate,
+      currency: invoiceCurrency,
+      payment_terms: terms,
+      ...priced,
+      reporting_currency: config.reportingCurrency,
+      fx_rate: bookedRate,
+      tax_exemption_reason: exempt ? exemptionReason : undefined,
+      balance: priced.total_amount
+    }
+  }
+}
+
+// Credit limits are advisory: the invoice is still issued, but Finance is told
+export const creditWarningFor = (invoice: Invoice) => {
+  const customer = customers.get(invoice.customer_id)
+  if (!customer || customer.credit_limit <= 0 || invoice.currency !== customer.default_currency) return undefined
+
+  const exposure = invoices
+    .filter((inv) => inv.id !== invoice.id && inv.customer_id === customer.id && inv.currency === customer.default_currency && inv.balance > 0 && (inv.status === 'Sent' || inv.status === 'Overdue'))
+    .reduce((sum, inv) => sum + inv.balance, 0)
+  return exposure + invoice.balance > customer.credit_limit
+    ? `Open balance ${invoice.currency} ${(exposure + invoice.balance).toFixed(2)} exceeds credit limit ${customer.credit_limit.toFixed(2)}`
+    : undefined
+}
+
+// Helper to open the collection record once an invoice is issued
+const openCollection = (invoice: Invoice) =>
+  collections.save({
+    invoice_id: invoice.id,
+    status: 'Open',
+    last_action: 'Created',
+    next_action_due: invoice.due_date,
+    notes: [],
+    dunning_stage: null,
+    scheduled_reminders: []
+  })
+
+
+// Helper to derive the open status of an unpaid invoice from its due date
+const openStatusFor = (invoice: Invoice): Invoice['status'] =>
+  invoice.due_date && invoice.due_date < new Date().toISOString().slice(0, 10) ? 'Overdue' : 'Sent'
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100
+
+// Payments less refunds; credit notes are not money received
+const netPaidOn = (invoice: Invoice) => roundCents(invoice.total_amount - invoice.credited_amount - invoice.balance)
+
+const findInvoice = (id: string) => {
+  const invoice = invoices.get(id)
+  if (!invoice) throw new ReceivablesError('Invoice not found', 404)
+  return invoice
+}
+
+const findCollection = (invoiceId: string) => {
+  const collection = collections.get(invoiceId)
+  if (!collection) throw new ReceivablesError('Collection record not found', 404)
+  return collection
+}
+
+// Full invoice with its credit notes and allowed next statuses
+export function invoiceDetails(id: string) {
+  const invoice = findInvoice(id)
+  return {
+    ...invoice,
+    credit_notes: creditNotes.filter(cn => cn.invoice_id === invoice.id),
+    allowed_transitions: allowedTransitions(invoice.status)
+  }
+}
+
+// Create an invoice; 'Draft' keeps it editable until it is sent
+export function createInvoice(input: Record<string, any>, status: 'Draft' | 'Sent' = 'Sent') {
+  if (status !== 'Draft' && status !== 'Sent') {
+    throw new ReceivablesError("status must be 'Draft' or 'Sent'")
+  }
+
+  const prepared = prepareInvoice(input)
+  if ('error' in prepared) throw new ReceivablesError(prepared.error)
+
+  const now = new Date().toISOString()
+  const invoice: Invoice = {
+    id: nextDocumentId('INV', 2001, invoices),
+    ...prepared.fields,
+    status,
+    credited_amount: 0,
+    payments: [],
+    created_at: now,
+    sent_at: status === 'Sent' ? now : undefined
+  }
+
+  invoices.save(invoice)
+
+  // Drafts are not collectable; their collection record is opened when they are sent
+  if (status === 'Sent') openCollection(invoice)
+  return invoice
+}
+
+// Edit a draft; issued invoices are corrected with credit notes
+export function updateDraftInvoice(id: string, changes: Record<string, any>) {
+  const invoice = findInvoice(id)
+
+  if (invoice.status !== 'Draft') {
+    throw new ReceivablesError(`Only Draft invoices can be edited; ${invoice.id} is ${invoice.status}. Issue a credit note instead.`, 409)
+  }
+
+  // A new issue date or terms recomputes the due date unless one is given
+  const keepDueDate = !('invoice_date' in changes) && !('payment_terms' in changes)
+  const prepared = prepareInvoice({
+    customer_id: invoice.customer_id,
+    invoice_date: invoice.invoice_date,
+    due_date: keepDueDate ? invoice.due_date : undefined,
+    line_items: invoice.line_items,
+    currency: invoice.currency,
+    payment_terms: invoice.payment_terms,
+    tax_jurisdiction: invoice.tax_jurisdiction,
+    prices_include_tax: invoice.prices_include_tax,
+    tax_exempt: invoice.tax_exempt,
+    tax_exemption_reason: invoice.tax_exemption_reason,
+    ...changes
+  })
+  if ('error' in prepared) throw new ReceivablesError(prepared.error)
+
+  Object.assign(invoice, prepared.fields)
+  return invoices.save(invoice)
+}
+
+// Issue a draft and email it to the customer's billing contact
+export async function sendInvoice(id: string) {
+  const invoice = findInvoice(id)
+
+  if (invoice.status !== 'Draft') {
+    throw new ReceivablesError(`Invoice ${invoice.id} is ${invoice.status}; only drafts can be sent`, 409)
+  }
+
+  const customer = customers.get(invoice.customer_id)
+  transition(invoice, 'Sent')
+  invoice.sent_at = new Date().toISOString()
+  invoices.save(invoice)
+  openCollection(invoice)
+
+  let notificationId: string | undefined
+  try {
+    const sent = await notifier.send({
+      channel: 'email',
+      to: (customer && billingEmail(customer)) || invoice.customer_id,
+      subject: `Invoice ${invoice.id} from ${config.company.name}`,
+      body: `Invoice ${invoice.id} for ${invoice.currency} ${invoice.total_amount.toFixed(2)} is due on ${invoice.due_date}. View it at /acc/invoices/${invoice.id}/pdf`,
+      template: 'invoice',
+      invoice_id: invoice.id
+    })
+    notificationId = sent.id
+  } catch (error) {
+    // The invoice is issued either way; delivery can be retried with a reminder
+    console.error(`[Invoice] Could not email ${invoice.id}:`, error)
+  }
+
+  return { invoice, notificationId }
+}
+
+// Void an invoice that has no payments against it
+export function cancelInvoice(id: string, reason: string, actor: string) {
+  const invoice = findInvoice(id)
+
+  if (!reason || typeof reason !== 'string') {
+    throw new ReceivablesError('A cancellation reason is required')
+  }
+  if (invoice.status === 'Cancelled' || !canTransition(invoice.status, 'Cancelled')) {
+    throw new ReceivablesError(new InvalidTransitionError(invoice.id, invoice.status, 'Cancelled').message, 409)
+  }
+  if (netPaidOn(invoice) > 0) {
+    throw new ReceivablesError(`Invoice ${invoice.id} has payments; refund them before cancelling`, 409)
+  }
+
+  const previousStatus = invoice.status
+  transition(invoice, 'Cancelled')
+  invoice.balance = 0
+  invoice.cancelled_at = new Date().toISOString()
+  invoice.cancelled_by = actor
+  invoice.cancellation_reason = reason
+  invoices.save(invoice)
+
+  const collection = collections.get(invoice.id)
+  if (collection) {
+    collection.status = 'Closed'
+    collection.last_action = 'Invoice cancelled'
+    collection.next_action_due = ''
+    collection.scheduled_reminders = []
+    collection.notes.push({ date: invoice.cancelled_at, user: actor, action: 'Cancelled', comment: reason })
+    collections.save(collection)
+  }
+
+  return { invoice, previousStatus }
+}
+
+interface PaymentInput {
+  amount: number
+  method: Payment['method']
+  type?: Payment['type']
+  reference?: string
+  payment_date?: string
+  comments?: string
+}
+
+// Record a payment or refund and move the invoice and its collection record along
+export function recordPayment(id: string, input: PaymentInput, actor: string) {
+  const { amount, method, reference, payment_date, comments } = input
+  const type = input.type || 'payment'
+
+  const invoice = findInvoice(id)
+
+  if (type !== 'payment' && type !== 'refund') {
+    throw new ReceivablesError("type must be 'payment' or 'refund'")
+  }
+  if (typeof amount !== 'number' || !(amount > 0)) {
+    throw new ReceivablesError('amount must be a positive number')
+  }
+  if (!PAYMENT_METHODS.includes(method)) {
+    throw new ReceivablesError(`method must be one of: ${PAYMENT_METHODS.join(', ')}`)
+  }
+  if (invoice.status === 'Draft' || invoice.status === 'Cancelled') {
+    throw new ReceivablesError(`Cannot record a ${type} on a ${invoice.status} invoice`, 409)
+  }
+  if (type === 'payment' && invoice.status === 'Paid') {
+    throw new ReceivablesError(`Invoice ${id} is already paid`, 409)
+  }
+
+  const netPaid = netPaidOn(invoice)
+  if (type === 'refund' && amount > netPaid) {
+    throw new ReceivablesError(`Refund exceeds net amount paid (${invoice.currency} ${netPaid.toFixed(2)})`)
+  }
+
+  const paymentDate = payment_date || new Date().toISOString().slice(0, 10)
+  if (!isDate(paymentDate)) {
+    throw new ReceivablesError('payment_date must be a valid YYYY-MM-DD date')
+  }
+  if (paymentDate < invoice.invoice_date) {
+    throw new ReceivablesError(`payment_date ${paymentDate} is before invoice date ${invoice.invoice_date}`)
+  }
+  let paymentRate
+  try {
+    paymentRate = rateBetween(invoice.currency, invoice.reporting_currency, paymentDate)
+  } catch (error) {
+    if (error instanceof FxRateMissingError) throw new ReceivablesError(error.message)
+    throw error
+  }
+
+  // Money received at a different rate than the invoice was booked at realizes an FX
+  // difference; a refund unwinds it
+  const realizedFx = fxDifference(roundCents(amount), invoice.fx_rate, paymentRate)
+
+  const payment: Payment = {
+    id: `PAY-${invoice.id.replace(/^INV-/, '')}-${invoice.payments.length + 1}`,
+    type,
+    amount: roundCents(amount),
+    method,
+    reference: reference || '',
+    payment_date: paymentDate,
+    recorded_by: actor,
+    recorded_at: new Date().toISOString(),
+    comments,
+    fx_rate: paymentRate,
+    realized_fx: type === 'refund' ? -realizedFx : realizedFx
+  }
+
+  const previousStatus = invoice.status
+  invoice.payments.push(payment)
+  invoice.balance = roundCents(invoice.balance + (type === 'refund' ? payment.amount : -payment.amount))
+  transition(invoice, invoice.balance <= 0 ? 'Paid' : openStatusFor(invoice))
+  invoices.save(invoice)
+
+  const collection = collections.get(id)
+  if (collection) {
+    collection.notes.push({
+      date: payment.recorded_at,
+      user: payment.recorded_by,
+      action: type === 'refund' ? 'Refund' : 'Payment',
+      comment: `${type === 'refund' ? 'Refunded' : 'Received'} ${invoice.currency} ${payment.amount.toFixed(2)} via ${method}${payment.reference ? ` (ref ${payment.reference})` : ''}`
+    })
+    if (invoice.status === 'Paid') {
+      collection.status = 'Closed'
+      collection.last_action = 'Paid in full'
+    } else {
+      // A partial payment or a refund that reopens the invoice keeps collections active
+      collection.status = previousStatus === 'Paid' ? 'Open' : collection.status
+      collection.last_action = type === 'refund' ? 'Refund issued' : 'Partial payment'
+    }
+    collections.save(collection)
+  }
+
+  return { payment, invoice, previousStatus }
+}
+
+// Credit part or all of an issued invoice. `amount` is gross; its tax share follows the
+// invoice's tax-to-total ratio
+export function issueCreditNote(id: string, input: { amount: number; reason: string; issue_date?: string }, actor: string) {
+  const { amount, reason, issue_date } = input
+  const invoice = findInvoice(id)
+
+  if (invoice.status === 'Draft' || invoice.status === 'Cancelled') {
+    throw new ReceivablesError(`Cannot credit a ${invoice.status} invoice`, 409)
+  }
+  if (typeof amount !== 'number' || !(amount > 0)) {
+    throw new ReceivablesError('amount must be a positive number')
+  }
+  if (!reason || typeof reason !== 'string') {
+    throw new ReceivablesError('A reason is required for a credit note')
+  }
+
+  const creditable = roundCents(invoice.total_amount - invoice.credited_amount)
+  if (roundCents(amount) > creditable) {
+    throw new ReceivablesError(`Credit exceeds the uncredited invoice total (${invoice.currency} ${creditable.toFixed(2)})`)
+  }
+
+  const gross = roundCents(amount)
+  const taxShare = invoice.total_amount > 0 ? roundCents(gross * invoice.tax_total / invoice.total_amount) : 0
+  const creditNote: CreditNote = {
+    id: nextDocumentId('CN', 1001, creditNotes),
+    invoice_id: invoice.id,
+    customer_id: invoice.customer_id,
+    currency: invoice.currency,
+    issue_date: issue_date || new Date().toISOString().slice(0, 10),
+    reason,
+    subtotal: roundCents(gross - taxShare),
+    tax_total: taxShare,
+    amount: gross,
+    issued_by: actor,
+    issued_at: new Date().toISOString()
+  }
+  creditNotes.save(creditNote)
+
+  // Crediting an already paid invoice leaves a negative balance, i.e. customer credit
+  const previousStatus = invoice.status
+  invoice.credited_amount = roundCents(invoice.credited_amount + gross)
+  invoice.balance = roundCents(invoice.balance - gross)
+  if (invoice.balance <= 0) transition(invoice, 'Paid')
+  invoices.save(invoice)
+
+  const collection = collections.get(invoice.id)
+  if (collection) {
+    collection.notes.push({
+      date: creditNote.issued_at,
+      user: creditNote.issued_by,
+      action: 'Credit Note',
+      comment: `${creditNote.id} for ${invoice.currency} ${gross.toFixed(2)}: ${reason}`
+    })
+    if (invoice.status === 'Paid') {
+      collection.status = 'Closed'
+      collection.last_action = 'Settled by credit note'
+    }
+    collections.save(collection)
+  }
+
+  return { creditNote, invoice, previousStatus }
+}
+
+// Send a payment reminder now, or hand it to the dunning scheduler when sendDate is in the future
+export async function requestReminder(id: string, input: { reminder_type?: string; send_date?: string }, actor: string) {
+  const { send_date } = input
+  const reminder_type = input.reminder_type || 'manual'
+
+  const invoice = findInvoice(id)
+  const collection = findCollection(id)
+
+  if (invoice.status !== 'Sent' && invoice.status !== 'Overdue') {
+    throw new ReceivablesError(`Cannot send reminders for a ${invoice.status} invoice`, 409)
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+  if (send_date && send_date > today) {
+    collection.scheduled_reminders.push({ reminder_type, send_at: send_date, requested_by: actor })
+    if (!collection.next_action_due || send_date < collection.next_action_due) collection.next_action_due = send_date
+    collection.notes.push({
+      date: new Date().toISOString(),
+      user: actor,
+      action: 'Reminder Scheduled',
+      comment: `${reminder_type} reminder scheduled for ${send_date}`
+    })
+    collections.save(collection)
+    return {
+      status: 'scheduled' as const,
+      message: `Reminder (${reminder_type}) scheduled for ${send_date} on invoice ${id}`
+    }
+  }
+
+  try {
+    const sent = await dunning.sendReminder(invoice, collection, reminder_type, actor)
+    collections.save(collection)
+    return {
+      status: 'sent' as const,
+      notification_id: sent.id,
+      message: `Reminder (${reminder_type}) sent to ${sent.to} for invoice ${id}`
+    }
+  } catch (error) {
+    throw new ReceivablesError(`Reminder could not be delivered: ${(error as Error).message}`, 502)
+  }
+}
+
+export function collectionStatus(invoiceId: string) {
+  const collection = findCollection(invoiceId)
+  return {
+    invoice_id: collection.invoice_id,
+    collection_status: collection.status,
+    last_action: collection.last_action,
+    next_action_due: collection.next_action_due,
+    notes: collection.notes
+  }
+}
+
+export function logCollectionAction(invoiceId: string, action: string, comment: string, actor: string) {
+  const collection = findCollection(invoiceId)
+
+  collection.last_action = action
+  collection.notes.push({
+    date: new Date().toISOString(),
+    user: actor,
+    action,
+    comment
+  })
+  return collections.save(collection)
+}
@@ -0,0 +1,202 @@
+import type { Notifier } from './notifier.js'
+import type { Repository } from './store.js'
+import type { StepDeadline } from './workflow.js'
+
+// The onboarding/offboarding record fields the monitor reads and writes
+export interface SlaRecord {
+  employeeId: string
+  status: string
+  auditTrail: Array<{ date: string; action: string; actor: string; details: string }>
+  // Steps already escalated, so a breach is escalated once
+  slaEscalations?: string[]
+}
+
+export interface SlaRecordReport {
+  process: string
+  employeeId: string
+  employeeName: string
+  status: string
+  anchorDate: string
+  overdue: StepDeadline[]
+  atRisk: StepDeadline[]
+}
+
+export interface SlaEscalation {
+  process: string
+  employeeId: string
+  step: string
+  dueDate: string
+  daysOverdue: number
+  notified?: string
+}
+
+export interface SlaReport {
+  asOfDate: string
+  recordsEvaluated: number
+  atRiskCount: number
+  overdueCount: number
+  records: SlaRecordReport[]
+  escalations: SlaEscalation[]
+}
+
+interface SlaTrackerOptions<R extends SlaRecord> {
+  process: string
+  records: Repository<R>
+  deadlines: (record: R, asOf: string) => StepDeadline[]
+  employeeName: (record: R) => string
+  anchorDate: (record: R) => string
+}
+
+// Type-erased view of one record collection, so trackers of different record types can be
+// monitored together
+export interface SlaTracker {
+  process: string
+  open: () => SlaRecord[]
+  deadlines: (record: SlaRecord, asOf: string) => StepDeadline[]
+  employeeName: (record: SlaRecord) => string
+  anchorDate: (record: SlaRecord) => string
+  save: (record: SlaRecord) => void
+}
+
+export function slaTracker<R extends SlaRecord>(options: SlaTrackerOptions<R>): SlaTracker {
+  return {
+    process: options.process,
+    open: () => options.records.filter((r) => r.status !== 'Completed'),
+    deadlines: (record, asOf) => options.deadlines(record as R, asOf),
+    employeeName: (record) => options.employeeName(record as R),
+    anchorDate: (record) => options.anchorDate(record as R),
+    save: (record) => options.records.save(record as R),
+  }
+}
+
+interface SlaMonitorDeps {
+  trackers: SlaTracker[]
+  notifier?: Notifier
+  escalationRecipient: string
+}
+
+const ACTOR = 'SLA Monitor'
+const today = () => new Date().toISOString().slice(0, 10)
+
+export function createSlaMonitor(deps: SlaMonitorDeps) {
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+
+  // Open records with at least one at-risk or overdue step
+  function report(asOf = today(), processName?: string): Omit<SlaReport, 'escalations'> {
+    const trackers = deps.trackers.filter((t) => !processName || t.process === processName)
+    let evaluated = 0
+    const records: SlaRecordReport[] = []
+
+    trackers.forEach((tracker) => {
+      tracker.open().forEach((record) => {
+        evaluated++
+        const deadlines = tracker.deadlines(record, asOf)
+        const overdue = deadlines.filter((d) => d.state === 'overdue')
+        const atRisk = deadlines.filter((d) => d.state === 'at_risk')
+        if (overdue.length === 0 && atRisk.length === 0) return
+        records.push({
+          process: tracker.process,
+          employeeId: record.employeeId,
+          employeeName: tracker.employeeName(record),
+          status: record.status,
+          anchorDate: tracker.anchorDate(record),
+          overdue,
+          atRisk,
+        })
+      })
+    })
+
+    records.sort((a, b) => b.overdue.length - a.overdue.length || a.anchorDate.localeCompare(b.anchorDate))
+    return {
+      asOfDate: asOf,
+      recordsEvaluated: evaluated,
+      atRiskCount: records.reduce((n, r) => n + r.atRisk.length, 0),
+      overdueCount: records.reduce((n, r) => n + r.overdue.length, 0),
+      records,
+    }
+  }
+
+  // Report as of a date and escalate every breach not escalated before: an audit trail
+  // entry on the record and, when a notifier is configured, an email to the escalation contact.
+  // A future date only previews; nothing is escalated for breaches that have not happened yet.
+  async function run(asOf = today(), processName?: string): Promise<SlaReport> {
+    const current = report(asOf, processName)
+    const escalations: SlaEscalation[] = []
+    if (asOf > today()) return { ...current, escalations }
+
+    for (const entry of current.records) {
+      const tracker = deps.trackers.find((t) => t.process === entry.process)!
+      const record = tracker.open().find((r) => r.employeeId === entry.employeeId)!
+      const escalated = new Set(record.slaEscalations ?? [])
+      const breaches = entry.overdue.filter((d) => !escalated.has(d.step))
+      if (breaches.length === 0) continue
+
+      // One notification per record, covering every step that newly breached
+      const summary = breaches.map((d) => `${d.label} was due ${d.dueDate} (${-d.daysRemaining} day(s) overdue)`)
+      let notice = ''
+      let notified: string | undefined
+      if (deps.notifier) {
+        try {
+          const sent = await deps.notifier.send({
+            channel: 'email',
+            to: deps.escalationRecipient,
+            subject: `SLA breach: ${entry.process} of ${entry.employeeName} (${entry.employeeId})`,
+            body: `${summary.join('\n')}\n\nCurrent status: ${entry.status}.`,
+            template: 'sla_breach',
+            employee_id: entry.employeeId,
+          })
+          notified = sent.to
+          notice = `; escalated to ${sent.to} (${sent.id})`
+        } catch (error) {
+          notice = `; notification failed: ${(error as Error).message}`
+        }
+      }
+
+      breaches.forEach((breach, i) => {
+        record.auditTrail.push({ date: new Date().toISOString(), action: 'SLA Breach', actor: ACTOR, details: summary[i] + notice })
+        escalated.add(breach.step)
+        escalations.push({
+          process: entry.process,
+          employeeId: entry.employeeId,
+          step: breach.step,
+          dueDate: breach.dueDate,
+          daysOverdue: -breach.daysRemaining,
+          notified,
+        })
+      })
+
+      record.slaEscalations = [...escalated]
+      tracker.save(record)
+    }
+
+    return { ...current, escalations }
+  }
+
+  // Background evaluation; the timer is unref'd so it never keeps the process alive
+  function start(intervalMs: number) {
+    if (timer || intervalMs <= 0) return
+    timer = setInterval(async () => {
+      if (running) return
+      running = true
+      try {
+        const result = await run()
+        if (result.escalations.length > 0) {
+          console.error(`[SLA] ${result.escalations.length} breach(es) escalated on ${result.asOfDate}`)
+        }
+      } catch (error) {
+        console.error('[SLA] Run failed:', error)
+      } finally {
+        running = false
+      }
+    }, intervalMs)
+    timer.unref()
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer)
+    timer = undefined
+  }
+
+  return { report, run, start, stop }
+}
@@ -0,0 +1,189 @@
+import fs from 'fs'
+import path from 'path'
+import { config } from './config.js'
+
+// Generic keyed collection used by every domain (POs, tasks, invoices, onboarding records, ...).
+// Records returned by get/find are live objects: mutate them, then call save() so the
+// change reaches the backing store.
+export interface Repository<T> {
+  readonly name: string
+  get(id: string): T | undefined
+  has(id: string): boolean
+  all(): T[]
+  find(predicate: (item: T) => boolean): T | undefined
+  filter(predicate: (item: T) => boolean): T[]
+  count(): number
+  save(item: T): T
+  delete(id: string): boolean
+  // Replace the whole collection, e.g. to load fixtures in tests
+  seed(items: T[]): void
+  clear(): void
+  // Called after every save or delete with the record key; returns an unsubscribe function
+  onChange(listener: ChangeListener): () => void
+}
+
+export type ChangeListener = (change: { key: string; type: 'created' | 'updated' | 'deleted' }) => void
+
+type KeyOf<T> = (item: T) => string
+
+type JournalEntry<T> =
+  | { op: 'put'; key: string; value: T }
+  | { op: 'del'; key: string }
+  | { op: 'clear' }
+
+export class MemoryRepository<T> implements Repository<T> {
+  protected items: Map<string, T> = new Map()
+  private listeners = new Set<ChangeListener>()
+
+  constructor(public readonly name: string, protected keyOf: KeyOf<T>) {}
+
+  get(id: string): T | undefined {
+    return this.items.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.items.has(id)
+  }
+
+  all(): T[] {
+    return [...this.items.values()]
+  }
+
+  find(predicate: (item: T) => boolean): T | undefined {
+    return this.all().find(predicate)
+  }
+
+  filter(predicate: (item: T) => boolean): T[] {
+    return this.all().filter(predicate)
+  }
+
+  count(): number {
+    return this.items.size
+  }
+
+  save(item: T): T {
+    const key = this.keyOf(item)
+    const type = this.items.has(key) ? 'updated' : 'created'
+    this.items.set(key, item)
+    this.emit(key, type)
+    return item
+  }
+
+  delete(id: string): boolean {
+    const existed = this.items.delete(id)
+    if (existed) this.emit(id, 'deleted')
+    return existed
+  }
+
+  seed(items: T[]): void {
+    this.items.clear()
+    items.forEach((item) => this.items.set(this.keyOf(item), item))
+  }
+
+  clear(): void {
+    this.items.clear()
+  }
+
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // A failing listener must not undo or block the write that triggered it
+  private emit(key: string, type: 'created' | 'updated' | 'deleted') {
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ key, type })
+      } catch (error) {
+        console.error(`[Store] ${this.name} change listener failed:`, error)
+      }
+    })
+  }
+}
+
+// Append-only JSON journal (one entry per line), replayed into memory on startup.
+// The journal is compacted to a snapshot of live records when it grows well past
+// the number of records it describes.
+export class JournalRepository<T> extends MemoryRepository<T> {
+  private file: string
+  private journalLength = 0
+
+  constructor(name: string, keyOf: KeyOf<T>, dataDir: string) {
+    super(name, keyOf)
+    fs.mkdirSync(dataDir, { recursive: true })
+    this.file = path.join(dataDir, `${name}.jsonl`)
+    this.replay()
+  }
+
+  save(item: T): T {
+    super.save(item)
+    this.append({ op: 'put', key: this.keyOf(item), value: item })
+    return item
+  }
+
+  delete(id: string): boolean {
+    const existed = super.delete(id)
+    if (existed) this.append({ op: 'del', key: id })
+    return existed
+  }
+
+  seed(items: T[]): void {
+    super.seed(items)
+    this.compact()
+  }
+
+  clear(): void {
+    super.clear()
+    this.append({ op: 'clear' })
+  }
+
+  private replay() {
+    if (!fs.existsSync(this.file)) return
+
+    const lines = fs.readFileSync(this.file, 'utf-8').split('\n').filter((line) => line.trim())
+    lines.forEach((line, index) => {
+      let entry: JournalEntry<T>
+      try {
+        entry = JSON.parse(line)
+      } catch {
+        // A torn final write is expected after a crash; anything earlier is corruption
+        if (index === lines.length - 1) return
+        throw new Error(`Corrupt journal ${this.file} at line ${index + 1}`)
+      }
+      if (entry.op === 'put') this.items.set(entry.key, entry.value)
+      else if (entry.op === 'del') this.items.delete(entry.key)
+      else this.items.clear()
+    })
+    this.journalLength = lines.length
+
+    if (this.journalLength > this.items.size * 2 + 100) this.compact()
+  }
+
+  private append(entry: JournalEntry<T>) {
+    fs.appendFileSync(this.file, JSON.stringify(entry) + '\n')
+    this.journalLength++
+  }
+
+  private compact() {
+    const snapshot = this.all().map((value) => JSON.stringify({ op: 'put', key: this.keyOf(value), value }))
+    const tmp = `${this.file}.tmp`
+    fs.writeFileSync(tmp, snapshot.map((line) => line + '\n').join(''))
+    fs.renameSync(tmp, this.file)
+    this.journalLength = snapshot.length
+  }
+}
+
+// Create a repository using the configured driver. `initial` is loaded only when the
+// store starts out empty, so demo data is written once and never overwrites real records.
+export function createRepository<T>(name: string, keyOf: KeyOf<T>, initial: T[] = []): Repository<T> {
+  const repo: Repository<T> =
+    config.storeDriver === 'file'
+      ? new JournalRepository<T>(name, keyOf, config.dataDir)
+      : new MemoryRepository<T>(name, keyOf)
+
+  if (repo.count() === 0 && config.seedDemoData && initial.length > 0) {
+    repo.seed(initial)
+  }
+
+  return repo
+}
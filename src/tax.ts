@@ -0,0 +1,123 @@
+import fs from 'fs'
+import { config } from './config.js'
+
+export interface TaxRate {
+  code: string
+  // Country or subdivision code (e.g. GB, US-CA); '*' applies anywhere
+  jurisdiction: string
+  rate: number
+  label?: string
+  exempt?: boolean
+}
+
+export interface TaxableItem {
+  description: string
+  quantity: number
+  unit_price: number
+  tax_code: string
+}
+
+export interface TaxOptions {
+  jurisdiction: string
+  pricesIncludeTax?: boolean
+  // Customer-level exemption (e.g. a resale or charity certificate): every line is taxed at 0
+  exempt?: boolean
+}
+
+export interface TaxedItem extends TaxableItem {
+  tax_rate: number
+  net_amount: number
+  tax_amount: number
+  gross_amount: number
+}
+
+export interface TaxBreakdownLine {
+  tax_code: string
+  jurisdiction: string
+  label: string
+  rate: number
+  taxable_amount: number
+  tax_amount: number
+}
+
+export interface TaxResult {
+  line_items: TaxedItem[]
+  subtotal: number
+  tax_total: number
+  total: number
+  tax_breakdown: TaxBreakdownLine[]
+}
+
+export class UnknownTaxCodeError extends Error {
+  constructor(public taxCode: string, public jurisdiction: string) {
+    super(`No tax rate for code ${taxCode} in jurisdiction ${jurisdiction}`)
+    this.name = 'UnknownTaxCodeError'
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+let taxRates: TaxRate[] | undefined
+
+export function getTaxRates(): TaxRate[] {
+  if (!taxRates) {
+    const raw = JSON.parse(fs.readFileSync(config.taxRatesFile, 'utf-8'))
+    taxRates = (Array.isArray(raw) ? raw : raw.rates) as TaxRate[]
+  }
+  return taxRates
+}
+
+// Most specific rate wins: exact jurisdiction, then its parent (US-CA -> US), then '*'
+export function findTaxRate(code: string, jurisdiction: string): TaxRate | undefined {
+  const candidates = [jurisdiction, jurisdiction.split('-')[0], '*'].map((j) => j.toUpperCase())
+  const rates = getTaxRates().filter((rate) => rate.code.toUpperCase() === code.toUpperCase())
+  for (const candidate of candidates) {
+    const match = rates.find((rate) => rate.jurisdiction.toUpperCase() === candidate)
+    if (match) return match
+  }
+  return undefined
+}
+
+// Price every line and roll the taxes up per code. Throws UnknownTaxCodeError for
+// a code with no rate in (or above) the jurisdiction.
+export function calculateTax(items: TaxableItem[], options: TaxOptions): TaxResult {
+  const breakdown = new Map<string, TaxBreakdownLine>()
+
+  const lineItems = items.map((item) => {
+    const rate = findTaxRate(item.tax_code, options.jurisdiction)
+    if (!rate) throw new UnknownTaxCodeError(item.tax_code, options.jurisdiction)
+
+    const effectiveRate = options.exempt || rate.exempt ? 0 : rate.rate
+    const extended = item.quantity * item.unit_price
+    const net = round2(options.pricesIncludeTax ? extended / (1 + effectiveRate) : extended)
+    const tax = round2(options.pricesIncludeTax ? extended - net : net * effectiveRate)
+
+    const key = `${rate.code}|${rate.jurisdiction}|${effectiveRate}`
+    if (!breakdown.has(key)) {
+      breakdown.set(key, {
+        tax_code: rate.code,
+        jurisdiction: rate.jurisdiction,
+        label: options.exempt ? `${rate.label || rate.code} (exempt)` : rate.label || rate.code,
+        rate: effectiveRate,
+        taxable_amount: 0,
+        tax_amount: 0,
+      })
+    }
+    const line = breakdown.get(key)!
+    line.taxable_amount = round2(line.taxable_amount + net)
+    line.tax_amount = round2(line.tax_amount + tax)
+
+    return { ...item, tax_rate: effectiveRate, net_amount: net, tax_amount: tax, gross_amount: round2(net + tax) }
+  })
+
+  const subtotal = round2(lineItems.reduce((sum, line) => sum + line.net_amount, 0))
+  const taxTotal = round2(lineItems.reduce((sum, line) => sum + line.tax_amount, 0))
+
+  return {
+    line_items: lineItems,
+    subtotal,
+    tax_total: taxTotal,
+    total: round2(subtotal + taxTotal),
+    tax_breakdown: [...breakdown.values()],
+  }
+}
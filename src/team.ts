@@ -0,0 +1,110 @@
+import { createRepository } from './store.js'
+
+export interface TeamMember {
+  id: string
+  name: string
+  role: string
+  workItemTypes: string[]
+}
+
+export interface Task {
+  id: string
+  name: string
+  description: string
+  projectCode: string
+  status: 'Not Started' | 'In Progress' | 'Completed'
+  assignedTo: string[] // TeamMember IDs
+  startDate: string
+  endDate: string
+}
+
+export class TaskError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'TaskError'
+  }
+}
+
+export const teamMembers = createRepository<TeamMember>('teamMembers', (tm) => tm.id, [
+  { id: 'TM-001', name: 'John Doe', role: 'Developer', workItemTypes: ['Backend', 'API'] },
+  { id: 'TM-002', name: 'Jane Smith', role: 'Tester', workItemTypes: ['QA', 'Automation'] },
+  { id: 'TM-003', name: 'Mike Johnson', role: 'Project Manager', workItemTypes: ['Management'] },
+])
+
+export const tasks = createRepository<Task>('tasks', (t) => t.id, [
+  {
+    id: 'TASK-1001',
+    name: 'Initial Setup',
+    description: 'Project initialization',
+    projectCode: 'PROJ-A',
+    status: 'Not Started',
+    assignedTo: [],
+    startDate: new Date().toISOString(),
+    endDate: new Date(Date.now() + 86400000).toISOString(),
+  }
+])
+
+const findTask = (taskId: string) => {
+  const task = tasks.get(taskId)
+  if (!task) throw new TaskError('Task not found', 404)
+  return task
+}
+
+export function createTask(input: { name: string; description?: string; projectCode: string; startDate?: string; endDate?: string }) {
+  if (!input.name || !input.projectCode) {
+    throw new TaskError('Name and Project Code are required')
+  }
+
+  return tasks.save({
+    id: `TASK-${1000 + tasks.count() + 1}`,
+    name: input.name,
+    description: input.description || '',
+    projectCode: input.projectCode,
+    status: 'Not Started',
+    assignedTo: [],
+    startDate: input.startDate || new Date().toISOString(),
+    endDate: input.endDate || new Date(Date.now() + 7 * 86400000).toISOString(),
+  })
+}
+
+export function assignTask(taskId: string, teamMemberIds: string[]) {
+  const task = findTask(taskId)
+
+  // Validate team members
+  const validMembers = teamMembers.filter((tm) => teamMemberIds.includes(tm.id))
+  if (validMembers.length !== teamMemberIds.length) {
+    throw new TaskError('One or more team members not found')
+  }
+
+  task.assignedTo = [...new Set([...task.assignedTo, ...teamMemberIds])]
+  return tasks.save(task)
+}
+
+export function updateTask(taskId: string, updates: Partial<Task>) {
+  const existing = findTask(taskId)
+
+  // The id is the storage key, so it cannot be changed through updates
+  return tasks.save({ ...existing, ...updates, id: existing.id })
+}
+
+export function replaceTeamMember(taskId: string, oldMemberId: string, newMemberId: string) {
+  const task = findTask(taskId)
+
+  if (!task.assignedTo.includes(oldMemberId)) {
+    throw new TaskError('Old member is not assigned to this task')
+  }
+
+  if (!teamMembers.has(newMemberId)) throw new TaskError('New team member not found', 404)
+
+  // Replace
+  task.assignedTo = task.assignedTo.map((id) => (id === oldMemberId ? newMemberId : id))
+  return tasks.save(task)
+}
+
+export function assignTeamRole(teamMemberId: string, newRole: string) {
+  const member = teamMembers.get(teamMemberId)
+  if (!member) throw new TaskError('Team member not found', 404)
+
+  member.role = newRole
+  return teamMembers.save(member)
+}
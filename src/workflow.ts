@@ -0,0 +1,211 @@
+import fs from 'fs'
+import { z } from 'zod'
+import { isDate } from './dates.js'
+
+const stepSchema = z.object({
+  id: z.string().min(1),
+  // Steps are grouped into phases so guards can name a whole phase (e.g. "approvals")
+  phase: z.string().min(1),
+  label: z.string().optional(),
+  // Due date in days relative to the record's anchor date (date of joining, last working
+  // day); negative means before it. Steps without one have no SLA.
+  dueDays: z.number().int().optional(),
+})
+
+const actionSchema = z.object({
+  // States the action may be taken from
+  from: z.array(z.string()).min(1),
+  // State to move to once the action is done; omitted means the status is left alone
+  to: z.string().optional(),
+  // Step ids or phase names that must be complete for `to`
+  when: z.array(z.string()).default([]),
+  // State to move to when `when` is not yet met; without it the action is rejected
+  otherwise: z.string().optional(),
+})
+
+const variantSchema = z.object({
+  name: z.string().min(1),
+  // Case-insensitive equality on the record's subject fields (employmentType, department, ...)
+  match: z.record(z.string()),
+  skip: z.array(z.string()).default([]),
+})
+
+export const workflowDefinitionSchema = z.object({
+  initial: z.string(),
+  states: z.array(z.string()).min(1),
+  steps: z.array(stepSchema),
+  actions: z.record(actionSchema),
+  variants: z.array(variantSchema).default([]),
+  // An unfinished step is at risk this many days before it falls due
+  atRiskDays: z.number().int().min(0).default(2),
+})
+
+export type WorkflowDefinition = z.output<typeof workflowDefinitionSchema>
+
+// Raised when an action is not allowed in the record's current state, or its guard is unmet
+export class WorkflowError extends Error {
+  constructor(message: string, public pendingSteps: string[] = []) {
+    super(message)
+    this.name = 'WorkflowError'
+  }
+}
+
+export function loadWorkflowDefinitions(file: string): Record<string, WorkflowDefinition> {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  return Object.fromEntries(
+    Object.entries(raw).map(([name, input]) => {
+      const parsed = workflowDefinitionSchema.safeParse(input)
+      if (!parsed.success) {
+        throw new Error(`Invalid workflow '${name}' in ${file}: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`)
+      }
+      return [name, parsed.data]
+    })
+  )
+}
+
+interface WorkflowBindings<R> {
+  // Whether each step defined in the workflow is done for a record
+  steps: Record<string, (record: R) => boolean>
+  // Fields variants match on
+  subject: (record: R) => Record<string, string | undefined>
+  getStatus: (record: R) => string
+  setStatus: (record: R, status: string) => void
+  // Date (YYYY-MM-DD) step due dates are counted from
+  anchorDate?: (record: R) => string | undefined
+}
+
+export interface WorkflowProgress {
+  variant: string | null
+  requiredSteps: string[]
+  skippedSteps: string[]
+  pendingSteps: string[]
+  phases: Record<string, boolean>
+  allowedActions: string[]
+}
+
+export interface StepDeadline {
+  step: string
+  label: string
+  phase: string
+  dueDate: string
+  done: boolean
+  state: 'done' | 'on_track' | 'at_risk' | 'overdue'
+  // Negative once overdue
+  daysRemaining: number
+}
+
+const DAY_MS = 86400000
+
+// Binds a declarative definition to a record type. Tools call `assertAllowed` before
+// changing anything and `advance` afterwards to move the status.
+export function createWorkflow<R>(name: string, definition: WorkflowDefinition, bindings: WorkflowBindings<R>) {
+  const stepIds = definition.steps.map((s) => s.id)
+  const phaseNames = [...new Set(definition.steps.map((s) => s.phase))]
+
+  // Fail on start-up rather than on the first tool call
+  stepIds.forEach((id) => {
+    if (!bindings.steps[id]) throw new Error(`Workflow '${name}' step '${id}' has no implementation`)
+  })
+  Object.entries(definition.actions).forEach(([action, def]) => {
+    ;[...def.from, def.to, def.otherwise].forEach((state) => {
+      if (state && !definition.states.includes(state)) throw new Error(`Workflow '${name}' action '${action}' names unknown state '${state}'`)
+    })
+    def.when.forEach((ref) => {
+      if (!stepIds.includes(ref) && !phaseNames.includes(ref)) throw new Error(`Workflow '${name}' action '${action}' guards on unknown step '${ref}'`)
+    })
+  })
+
+  const variantOf = (subject: Record<string, string | undefined>) =>
+    definition.variants.find((v) =>
+      Object.entries(v.match).every(([field, value]) => subject[field]?.toLowerCase() === value.toLowerCase())
+    )
+  const variantFor = (record: R) => variantOf(bindings.subject(record))
+
+  const skippedSteps = (record: R) => variantFor(record)?.skip ?? []
+  const requiredSteps = (record: R) => stepIds.filter((id) => !skippedSteps(record).includes(id))
+  const isDone = (record: R, stepId: string) => bindings.steps[stepId](record)
+
+  // Expand step ids and phase names into the required steps they cover
+  const stepsFor = (record: R, refs: string[]) => {
+    const required = requiredSteps(record)
+    return definition.steps
+      .filter((s) => refs.includes(s.id) || refs.includes(s.phase))
+      .map((s) => s.id)
+      .filter((id) => required.includes(id))
+  }
+
+  const unmet = (record: R, refs: string[]) => stepsFor(record, refs).filter((id) => !isDone(record, id))
+
+  const actionDef = (action: string) => {
+    const def = definition.actions[action]
+    if (!def) throw new Error(`Workflow '${name}' has no action '${action}'`)
+    return def
+  }
+
+  const can = (record: R, action: string) => actionDef(action).from.includes(bindings.getStatus(record))
+
+  function assertAllowed(record: R, action: string) {
+    if (!can(record, action)) {
+      const allowedFrom = actionDef(action).from.join(', ')
+      throw new WorkflowError(`Cannot ${action} ${name} while it is ${bindings.getStatus(record)} (allowed from: ${allowedFrom})`)
+    }
+  }
+
+  // Check the guard and move the record; returns the new status
+  function advance(record: R, action: string): string {
+    assertAllowed(record, action)
+    const def = actionDef(action)
+    if (!def.to) return bindings.getStatus(record)
+
+    const pending = unmet(record, def.when)
+    if (pending.length === 0) {
+      bindings.setStatus(record, def.to)
+    } else if (def.otherwise) {
+      bindings.setStatus(record, def.otherwise)
+    } else {
+      throw new WorkflowError(`Cannot ${action} ${name}: ${pending.length} required step(s) incomplete`, pending)
+    }
+    return bindings.getStatus(record)
+  }
+
+  function progress(record: R): WorkflowProgress {
+    const required = requiredSteps(record)
+    return {
+      variant: variantFor(record)?.name ?? null,
+      requiredSteps: required,
+      skippedSteps: skippedSteps(record),
+      pendingSteps: required.filter((id) => !isDone(record, id)),
+      phases: Object.fromEntries(phaseNames.map((phase) => [phase, unmet(record, [phase]).length === 0])),
+      allowedActions: Object.keys(definition.actions).filter((action) => can(record, action)),
+    }
+  }
+
+  // Steps a record with these subject fields will have to complete, before one exists
+  function plannedSteps(subject: Record<string, string | undefined>) {
+    const variant = variantOf(subject)
+    return {
+      variant: variant?.name ?? null,
+      steps: definition.steps.filter((s) => !variant?.skip.includes(s.id)),
+    }
+  }
+
+  // Due date and SLA state of each required step that has one; empty when the record's
+  // anchor date is missing or not a valid date
+  function deadlines(record: R, asOf = new Date().toISOString().slice(0, 10)): StepDeadline[] {
+    const anchor = bindings.anchorDate?.(record)
+    if (!isDate(anchor)) return []
+    const required = requiredSteps(record)
+
+    return definition.steps
+      .filter((s) => s.dueDays !== undefined && required.includes(s.id))
+      .map((s) => {
+        const dueDate = new Date(Date.parse(anchor) + s.dueDays! * DAY_MS).toISOString().slice(0, 10)
+        const daysRemaining = Math.round((Date.parse(dueDate) - Date.parse(asOf)) / DAY_MS)
+        const done = isDone(record, s.id)
+        const state = done ? 'done' : daysRemaining < 0 ? 'overdue' : daysRemaining <= definition.atRiskDays ? 'at_risk' : 'on_track'
+        return { step: s.id, label: s.label ?? s.id, phase: s.phase, dueDate, done, state, daysRemaining }
+      })
+  }
+
+  return { name, definition, initial: definition.initial, assertAllowed, advance, can, progress, requiredSteps, plannedSteps, deadlines }
+}